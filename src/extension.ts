@@ -1,78 +1,133 @@
 // src/extension.ts
 import * as vscode from "vscode";
 
-// 🔗 서버 엔드포인트 분리
-// - AUTH_API_BASE: 인증/유저 정보 (FastAPI 8000)
-// - REVIEW_API_BASE: 리뷰/LLM (8002)
-const AUTH_API_BASE = "http://18.205.229.159:8000";
-const REVIEW_API_BASE = "http://18.205.229.159:8002";
-
-// ✅ 새 리뷰 생성 & 조회 엔드포인트 (LLM 서버)
-const REVIEW_REQUEST_URL = `${REVIEW_API_BASE}/v1/reviews/request`;
-const REVIEW_GET_URL = `${REVIEW_API_BASE}/v1/reviews`;
-
-// 🌐 웹 대시보드 주소 (토큰 발급 페이지 열 때 사용)
-const FRONTEND_URL = "https://web-dkmv.vercel.app";
+import {
+  getEndpoints,
+  isEndpointConfigChange,
+  pickProfile,
+} from "./extension/config";
+import { ReviewCancelledError } from "./extension/reviewPolling";
+import { fetchMe, ReviewApiError } from "./extension/reviewApi";
+import { parseAnalyzerResult, SchemaError } from "./shared/reviewSchema";
+import type { AnalyzerResult, UserMe } from "./shared/reviewSchema";
+import { ReviewNotSentError, runReview } from "./extension/reviewRunner";
+import type {
+  ReviewAuth,
+  ReviewJob,
+  ReviewOutcome,
+} from "./extension/reviewRunner";
+import { isNetworkError } from "./extension/http";
+import {
+  drainOfflineQueue,
+  enqueueReview,
+  getPendingReviewCount,
+  initOfflineQueue,
+  onDidChangeOfflineQueue,
+} from "./extension/offlineQueue";
+import type { QueuedReview } from "./extension/offlineQueue";
+import { clearToken, loadToken, saveToken } from "./extension/tokenStore";
+import {
+  clearReviewDiagnostics,
+  publishReviewDiagnostics,
+  registerReviewDiagnostics,
+} from "./extension/diagnostics";
+import { clearReviewCache, initReviewCache } from "./extension/reviewCache";
+import {
+  recordAutoReviewBaseline,
+  registerAutoReview,
+} from "./extension/autoReview";
+import { registerBatchReview } from "./extension/batchReview";
+import { registerGitReview } from "./extension/gitReview";
+import { initReviewHistory } from "./extension/reviewHistory";
+import { registerHistoryView } from "./extension/historyView";
+import type { OpenedHistoryItem } from "./extension/historyView";
+import { registerSymbolLens } from "./extension/symbolLens";
+import { registerReviewQuickFixes } from "./extension/quickFix";
+import { registerIssueDecorations } from "./extension/issueDecorations";
+import { registerStatusBar } from "./extension/statusBar";
+import {
+  exportReportFromHistory,
+  exportReviewReport,
+} from "./extension/reportExport";
+import type { ReportMeta } from "./extension/reportExport";
+import { importSarifFile } from "./extension/sarif";
+import { runModelComparison } from "./extension/compareRunner";
+import { MAX_COMPARE_MODELS } from "./shared/reviewCompare";
+import {
+  parsePersistedWebviewState,
+  parseWebviewMessage,
+  PROTOCOL_VERSION,
+  toProtocolError,
+} from "./shared/protocol";
+import type {
+  ExtensionToWebviewMessage,
+  PersistedWebviewState,
+  ReportFormat,
+  SelectionStart,
+} from "./shared/protocol";
+import {
+  getModelCatalog,
+  initModelCatalog,
+  onDidChangeModelCatalog,
+  refreshModelCatalog,
+} from "./extension/modelCatalog";
+import {
+  getModelPreferences,
+  getPreferredModel,
+  initModelPreferences,
+  onDidChangeModelPreferences,
+  recordRecentModel,
+  toggleFavoriteModel,
+} from "./extension/modelPreferences";
+import {
+  addPanelHost,
+  ANALYZER_PANEL_TYPE,
+  createAnalyzerPanel,
+  findPanelHost,
+  getActivePanelHost,
+  getAnalyzerHosts,
+  getPanelMode,
+  isAnalyzerHostOpen,
+  registerAnalyzerView,
+  setHostFilePath,
+} from "./extension/analyzerHosts";
+import type { AnalyzerHost } from "./extension/analyzerHosts";
 
 // 🔐 익스텐션 내부에서만 관리하는 인증 상태
 let authToken: string | null = null;
 let authUser: AuthUser | null = null;
 
-let panel: vscode.WebviewPanel | undefined;
-
-// 서버가 주는 유저 스펙(웹에서 쓰는 AuthUser와 거의 동일하게 맞춤)
-type AuthUser = {
-  id: number;
-  github_id?: string;
-  login: string;
-  name?: string | null;
-  avatar_url?: string | null;
-  created_at?: string;
+// 💾 패널 / 사이드바 뷰를 닫았다 다시 열 때 복원할 웹뷰 상태 (SAVE_STATE)
+const WEBVIEW_STATE_KEY = "dkmv.webviewState";
+const VIEW_STATE_KEY = "dkmv.webviewState.view";
+
+// 📬 요청을 보낸 웹뷰가 닫힌 뒤 끝난 리뷰 결과 — 다시 열면 전달
+const DELIVER_ON_REOPEN: ExtensionToWebviewMessage["type"][] = [
+  "ANALYZE_RESULT",
+  "ANALYZE_ERROR",
+  "ANALYZE_CANCELLED",
+  "ANALYZE_QUEUED",
+  "COMPARE_UPDATE",
+];
+type UndeliveredMessage = {
+  kind: AnalyzerHost["kind"];
+  filePath: string | null;
+  message: ExtensionToWebviewMessage;
 };
+// 요청(진행 중이던 AbortController) 단위 — 같은 요청의 새 메시지는 이전 것을 교체
+const undeliveredMessages = new Map<
+  AbortController | AnalyzerHost,
+  UndeliveredMessage
+>();
 
-type WebviewMessage =
-  | { type: "REQUEST_FULL_DOCUMENT" }
-  | {
-      type: "REQUEST_ANALYZE";
-      payload?: {
-        code?: string;
-        filePath?: string;
-        languageId?: string;
-        model?: string;
-      };
-    }
-  | { type: "GET_AUTH_STATE" }
-  | { type: "OPEN_LOGIN" }
-  | { type: "OPEN_TOKEN_PAGE" }
-  | { type: "SET_TOKEN"; payload?: { token?: string } }
-  | { type: string; payload?: any };
-
-// ReviewRequest 스펙 참고용 타입
-type ReviewRequestPayload = {
-  meta: {
-    user_id: number | null;
-    review_id: number | null;
-    version: string;
-    actor: string;
-    code_fingerprint: string | null;
-    model: string | null;
-    result: {
-      result_ref: string | null;
-      error_message: string | null;
-    };
-    audit: {
-      created_at: string;
-      updated_at: string;
-    };
-  };
-  body: {
-    snippet: {
-      code: string;
-      language: string;
-    };
-    trigger: "manual" | "auto";
-  };
-};
+// 🕘 리뷰 기록 트리뷰 (로그인 상태가 바뀌면 서버 목록 다시 로드)
+let historyView: { refresh: () => Promise<void> } | undefined;
+
+// 📊 상태바 (로그인 상태가 바뀌면 갱신)
+let statusBar: { refresh: () => void } | undefined;
+
+// 서버가 주는 유저 스펙(웹에서 쓰는 AuthUser와 거의 동일하게 맞춤)
+type AuthUser = UserMe;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log("DKMV Analyzer (React Webview) activated");
@@ -85,6 +140,110 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(uriHandler);
 
+  // 📊 상태바 + 패널 열기 (상태바 클릭)
+  statusBar = registerStatusBar(context, { getUser: () => authUser });
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.openPanel", () => {
+      const host = getActivePanelHost();
+      if (host) {
+        host.reveal();
+      } else {
+        openNewPanel(context, null);
+      }
+    }),
+    // 🪟 결과를 나란히 비교할 수 있도록 항상 새 패널
+    vscode.commands.registerCommand("dkmv.openNewPanel", () =>
+      openNewPanel(context, null)
+    ),
+    // 🔄 VS Code 재시작 / 창 리로드 후 열려 있던 패널 복원 (상태는 웹뷰의 getState)
+    vscode.window.registerWebviewPanelSerializer(ANALYZER_PANEL_TYPE, {
+      async deserializeWebviewPanel(restored, state) {
+        if (getPanelMode() === "single" && getActivePanelHost()) {
+          restored.dispose();
+          return;
+        }
+        restored.webview.options = { enableScripts: true };
+        const host = addPanelHost(
+          restored,
+          parsePersistedWebviewState(state)?.filePath || null
+        );
+        attachWebview(context, host);
+      },
+    })
+  );
+
+  // 📌 액티비티 바에 붙는 분석기 뷰
+  registerAnalyzerView(context, (host) => attachWebview(context, host));
+
+  // 📝 리뷰 기록 → Markdown / HTML / SARIF 리포트, SARIF → Problems 패널
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.exportReport", () =>
+      exportReportFromHistory()
+    ),
+    vscode.commands.registerCommand("dkmv.importSarif", () => importSarifFile())
+  );
+
+  // 🤖 모델 카탈로그 (서버 목록 + TTL 캐시 + 고정 목록 fallback)
+  initModelCatalog(context, () => authToken);
+  context.subscriptions.push(onDidChangeModelCatalog(postModelCatalog));
+
+  // ⭐ 기본 모델 / 즐겨찾기 / 최근 사용 모델
+  initModelPreferences(context);
+  context.subscriptions.push(onDidChangeModelPreferences(postModelPreferences));
+
+  // 💾 로컬 리뷰 캐시
+  initReviewCache(context);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.clearReviewCache", async () => {
+      await clearReviewCache();
+      vscode.window.showInformationMessage(
+        "DKMV: 로컬 리뷰 캐시를 비웠습니다."
+      );
+    })
+  );
+
+  // 🕘 리뷰 기록 (로컬 + 서버) 사이드바
+  initReviewHistory(context);
+  historyView = registerHistoryView(context, {
+    getAuth: getReviewAuth,
+    openInPanel: (item) => openHistoryInPanel(context, item),
+  });
+
+  // 🩺 리뷰 이슈 → Problems 패널
+  registerReviewDiagnostics(context);
+  registerReviewQuickFixes(context);
+  registerIssueDecorations(context);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.clearDiagnostics", () =>
+      clearReviewDiagnostics()
+    )
+  );
+
+  // 💾→🔍 저장 시 자동 리뷰 (dkmv.autoReview.enabled)
+  registerAutoReview(context, {
+    getAuth: getReviewAuth,
+    getFallbackModel: getPreferredModel,
+    onResult: handleAutoReviewResult,
+  });
+
+  // 📮 서버에 닿지 못한 리뷰 → 대기열 (연결되면 자동 재전송)
+  initOfflineQueue(context, {
+    getAuth: getReviewAuth,
+    onCompleted: (item, outcome) =>
+      handleQueuedReviewCompleted(context, item, outcome),
+  });
+  context.subscriptions.push(onDidChangeOfflineQueue(postQueueState));
+
+  // 📂 폴더 / 워크스페이스 일괄 리뷰 (Explorer 우클릭 메뉴 포함)
+  const batchDeps = {
+    getAuth: getReviewAuth,
+    getPreferredModel,
+  };
+  registerBatchReview(context, batchDeps);
+
+  // 🌿 커밋 안 된 git 변경분만 리뷰
+  registerGitReview(context, batchDeps);
+
   // ✅ VS Code 내에 토큰 설정용 커맨드 등록
   const setTokenCmd = vscode.commands.registerCommand(
     "dkmv.setToken",
@@ -100,6 +259,41 @@ export async function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(setTokenCmd);
 
+  // 🚪 로그아웃 (토큰/유저 정보 삭제)
+  const logoutCmd = vscode.commands.registerCommand("dkmv.logout", async () => {
+    await logout(context);
+    vscode.window.showInformationMessage("DKMV: 로그아웃되었습니다.");
+  });
+  context.subscriptions.push(logoutCmd);
+
+  // 🌐 서버 프로필 전환 (prod / staging / local ...)
+  const switchProfileCmd = vscode.commands.registerCommand(
+    "dkmv.switchProfile",
+    async () => {
+      const profile = await pickProfile();
+      if (profile) {
+        vscode.window.showInformationMessage(
+          `DKMV: 서버 프로필을 '${profile}'(으)로 전환했습니다.`
+        );
+      }
+    }
+  );
+  context.subscriptions.push(switchProfileCmd);
+
+  // ⚙️ 엔드포인트 설정이 바뀌면 웹뷰에 새 URL 전달 + 토큰 재검증
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (!isEndpointConfigChange(e)) return;
+      postConfigState();
+      // 서버가 바뀌면 그 서버의 모델 목록으로 (받기 전까지는 캐시 / 기본 목록)
+      postModelCatalog();
+      refreshModelCatalogQuietly();
+      if (authToken) {
+        await setAuthToken(authToken, context, { silent: true });
+      }
+    })
+  );
+
   // 🔁 코드 선택 분석 명령
   const disposable = vscode.commands.registerCommand(
     "dkmv.analyzeSelection",
@@ -111,39 +305,23 @@ export async function activate(context: vscode.ExtensionContext) {
       }
 
       const selection = editor.selection;
-      const hasSelection = !selection.isEmpty;
-
-      const code = hasSelection
-        ? editor.document.getText(selection)
-        : editor.document.getText();
-
-      if (!code.trim()) {
-        vscode.window.showInformationMessage("분석할 코드가 비어 있습니다.");
-        return;
-      }
-
-      const filePath = editor.document.uri.fsPath;
-      const languageId = editor.document.languageId;
-
-      ensureWebviewPanel(context);
-
-      panel!.webview.postMessage({
-        type: "NEW_CODE",
-        payload: {
-          code,
-          fileName: editor.document.fileName,
-          filePath,
-          languageId,
-          mode: hasSelection ? "selection" : "document",
-        },
-      });
+      sendCodeToPanel(
+        context,
+        editor.document,
+        selection.isEmpty ? null : selection
+      );
     }
   );
 
   context.subscriptions.push(disposable);
 
-  // 🔄 VS Code globalState 에 저장된 토큰 복원 시도
-  const savedToken = context.globalState.get<string>("dkmv.authToken");
+  // 🔎 함수/메서드/클래스 위 "DKMV: Review" CodeLens → 해당 심볼 범위만 패널로
+  registerSymbolLens(context, (document, range) =>
+    sendCodeToPanel(context, document, range)
+  );
+
+  // 🔄 SecretStorage 에 저장된 토큰 복원 시도 (예전 globalState 토큰은 이관)
+  const savedToken = await loadToken(context);
   if (savedToken) {
     await setAuthToken(savedToken, context, { silent: true });
   }
@@ -183,22 +361,20 @@ async function setAuthToken(
   options?: { silent?: boolean }
 ) {
   try {
-    // ✅ 여기! 유저 검증은 AUTH_API_BASE (8000)로 보냄
-    const res = await fetch(`${AUTH_API_BASE}/v1/users/me`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    if (!res.ok) {
-      throw new Error(`유효하지 않은 토큰입니다. (HTTP ${res.status})`);
+    // ✅ 여기! 유저 검증은 인증 서버(authApiBase)로 보냄
+    let me: AuthUser;
+    try {
+      me = await fetchMe(token);
+    } catch (e) {
+      if (e instanceof ReviewApiError) {
+        throw new Error(`유효하지 않은 토큰입니다. (HTTP ${e.status})`);
+      }
+      throw e;
     }
-
-    const me = (await res.json()) as AuthUser;
     authToken = token;
     authUser = me;
 
-    await context.globalState.update("dkmv.authToken", token);
+    await saveToken(context, token);
 
     if (!options?.silent) {
       vscode.window.showInformationMessage(
@@ -208,20 +384,17 @@ async function setAuthToken(
       );
     }
 
-    if (panel) {
-      panel.webview.postMessage({
-        type: "AUTH_STATE",
-        payload: {
-          isAuthenticated: true,
-          user: authUser,
-        },
-      });
-    }
+    postAuthState();
+    void historyView?.refresh();
+    // 인증이 필요한 서버면 로그인 후에야 모델 목록을 받을 수 있음
+    refreshModelCatalogQuietly();
+    // 로그인 전에 쌓인 대기열도 이제 보낼 수 있음
+    void drainOfflineQueue();
   } catch (error) {
-    const msg =
-      error instanceof Error
-        ? error.message
-        : "토큰 설정 중 알 수 없는 오류가 발생했습니다.";
+    const msg = describeError(
+      error,
+      "토큰 설정 중 알 수 없는 오류가 발생했습니다."
+    );
 
     if (!options?.silent) {
       vscode.window.showErrorMessage(`DKMV: ${msg}`);
@@ -229,80 +402,245 @@ async function setAuthToken(
 
     authToken = null;
     authUser = null;
-    await context.globalState.update("dkmv.authToken", undefined);
+    // 오프라인이라 검증하지 못한 경우엔 저장된 토큰을 남겨 둠 (다음 실행 때 다시 검증)
+    if (!isNetworkError(error)) {
+      await clearToken(context);
+    }
 
-    if (panel) {
-      panel.webview.postMessage({
-        type: "AUTH_STATE",
-        payload: {
-          isAuthenticated: false,
-          user: null,
-        },
-      });
-      panel.webview.postMessage({
-        type: "TOKEN_ERROR",
-        payload: msg,
+    postAuthState();
+    broadcastToWebviews({
+      type: "TOKEN_ERROR",
+      payload: msg,
+    });
+  }
+}
+
+/**
+ * 🚪 로그아웃: 진행 중인 리뷰 중단 + 토큰/유저 정보 삭제 + webview에 AUTH_STATE 전파
+ */
+async function logout(context: vscode.ExtensionContext) {
+  getAnalyzerHosts().forEach(handleCancelAnalyze);
+
+  authToken = null;
+  authUser = null;
+  await clearToken(context);
+
+  postAuthState();
+  void historyView?.refresh();
+}
+
+// 리뷰 요청에 쓸 인증 정보 (로그인 안 돼 있으면 null)
+function getReviewAuth(): ReviewAuth | null {
+  if (!authToken || !authUser) return null;
+  return { token: authToken, userId: authUser.id };
+}
+
+/**
+ * 📨 요청을 보낸 웹뷰로 메시지 전송 (프로토콜 타입으로 컴파일 타임 검사)
+ *  - 그 웹뷰가 이미 닫혔으면 결과 메시지만 남겨 두었다가 다시 열린 웹뷰에 전달
+ */
+function postToWebview(host: AnalyzerHost, message: ExtensionToWebviewMessage) {
+  if (!isAnalyzerHostOpen(host)) {
+    if (DELIVER_ON_REOPEN.includes(message.type)) {
+      const key = host.abort ?? host;
+      undeliveredMessages.delete(key);
+      undeliveredMessages.set(key, {
+        kind: host.kind,
+        filePath: host.filePath,
+        message,
       });
     }
+    return;
   }
+  if (message.type === "NEW_CODE") {
+    setHostFilePath(host, message.payload.filePath || null);
+  }
+  void host.webview.postMessage(message);
 }
 
-function ensureWebviewPanel(context: vscode.ExtensionContext) {
-  if (panel) {
-    panel.reveal(vscode.ViewColumn.Beside);
-    return;
+/**
+ * 📢 열려 있는 모든 웹뷰에 전송 (로그인 / 설정 / 모델 목록 등 공통 상태)
+ */
+function broadcastToWebviews(message: ExtensionToWebviewMessage) {
+  for (const host of getAnalyzerHosts()) {
+    void host.webview.postMessage(message);
   }
+}
 
-  panel = vscode.window.createWebviewPanel(
-    "dkmvAnalyzer",
-    "DKMV Analyzer",
-    vscode.ViewColumn.Beside,
-    {
-      enableScripts: true,
-    }
+/**
+ * 📬 요청한 웹뷰가 닫힌 동안 끝난 리뷰 결과를 다시 열린 같은 종류의 웹뷰에 전달
+ *  - 웹뷰가 준비된 뒤(GET_AUTH_STATE) 호출
+ *  - 코드를 받은 웹뷰(복원된 패널 포함)는 같은 파일의 결과만, 아직 없으면 가장 최근 결과 하나
+ *  - 다른 파일을 받은 웹뷰(새 리뷰용 패널 등)는 덮어쓰지 않음
+ */
+function flushUndeliveredMessage(host: AnalyzerHost) {
+  const matches = Array.from(undeliveredMessages).filter(
+    ([, pending]) =>
+      pending.kind === host.kind &&
+      (host.filePath === null || pending.filePath === host.filePath)
+  );
+  const latest = matches[matches.length - 1];
+  if (!latest) return;
+  undeliveredMessages.delete(latest[0]);
+  postToWebview(host, latest[1].message);
+}
+
+// 버전 불일치 경고는 세션당 한 번만
+let warnedProtocolMismatch = false;
+
+/**
+ * 🤝 웹뷰 HELLO: 프로토콜 버전 확인 후 익스텐션 버전으로 응답
+ *  (불일치 표시는 웹뷰가 하고, 익스텐션은 알림만 한 번)
+ */
+function handleWebviewHello(host: AnalyzerHost, webviewVersion: number) {
+  postToWebview(host, {
+    type: "HELLO",
+    payload: { protocolVersion: PROTOCOL_VERSION },
+  });
+  if (webviewVersion === PROTOCOL_VERSION || warnedProtocolMismatch) return;
+  warnedProtocolMismatch = true;
+  console.warn(
+    `[DKMV] protocol mismatch: extension v${PROTOCOL_VERSION}, webview v${webviewVersion}`
   );
+  vscode.window.showWarningMessage(
+    `DKMV: 웹뷰와 익스텐션의 메시지 프로토콜 버전이 다릅니다. (익스텐션 v${PROTOCOL_VERSION}, 웹뷰 v${webviewVersion}) 익스텐션을 다시 빌드하거나 창을 다시 로드해 주세요.`
+  );
+}
 
-  panel.webview.html = getWebviewHtml(panel.webview, context.extensionUri);
+function postAuthState() {
+  statusBar?.refresh();
+  broadcastToWebviews({
+    type: "AUTH_STATE",
+    payload: {
+      isAuthenticated: !!authToken && !!authUser,
+      user: authUser,
+    },
+  });
+}
 
-  panel.webview.onDidReceiveMessage(
-    async (message: WebviewMessage) => {
-      if (!message || typeof message !== "object") return;
+/**
+ * 🪟 명령이 코드를 보낼 패널 — dkmv.panel.mode 에 맞는 기존 패널, 없으면 새로
+ */
+function ensureWebviewPanel(
+  context: vscode.ExtensionContext,
+  filePath: string | null
+): AnalyzerHost {
+  const existing = findPanelHost(filePath);
+  if (existing) {
+    existing.reveal();
+    return existing;
+  }
+  return openNewPanel(context, filePath);
+}
+
+function openNewPanel(
+  context: vscode.ExtensionContext,
+  filePath: string | null
+): AnalyzerHost {
+  const host = addPanelHost(createAnalyzerPanel(filePath), filePath);
+  attachWebview(context, host);
+  return host;
+}
+
+function stateKeyFor(host: AnalyzerHost): string {
+  return host.kind === "view" ? VIEW_STATE_KEY : WEBVIEW_STATE_KEY;
+}
+
+/**
+ * 패널 / 사이드바 뷰에 HTML + 메시지 핸들러 연결
+ *  - 마지막 상태는 패널 하나만 쓰는 모드와 사이드바 뷰에서만 복원
+ *    (파일별 / 리뷰별 패널은 곧 받을 코드로 시작)
+ */
+function attachWebview(context: vscode.ExtensionContext, host: AnalyzerHost) {
+  const restoreState = host.kind === "view" || getPanelMode() === "single";
+  host.webview.html = getWebviewHtml(
+    host.webview,
+    context.extensionUri,
+    restoreState
+      ? parsePersistedWebviewState(
+          context.workspaceState.get(stateKeyFor(host))
+        )
+      : null
+  );
+
+  host.webview.onDidReceiveMessage(
+    async (raw: unknown) => {
+      // 📨 프로토콜 검증: 모르는 / 잘못된 메시지는 웹뷰에 알리고 무시
+      let message;
+      try {
+        message = parseWebviewMessage(raw);
+      } catch (error) {
+        const payload = toProtocolError(raw, error);
+        console.warn("[DKMV] invalid message from webview:", payload, raw);
+        if (payload.messageType !== "PROTOCOL_ERROR") {
+          postToWebview(host, { type: "PROTOCOL_ERROR", payload });
+        }
+        return;
+      }
 
       switch (message.type) {
+        case "HELLO":
+          handleWebviewHello(host, message.payload.protocolVersion);
+          break;
+
+        case "PROTOCOL_ERROR":
+          console.warn(
+            "[DKMV] webview rejected a message:",
+            message.payload.messageType,
+            message.payload.error
+          );
+          break;
+
         case "REQUEST_FULL_DOCUMENT":
-          await handleRequestFullDocument();
+          await handleRequestFullDocument(host);
           break;
 
         case "REQUEST_ANALYZE":
-          await handleRequestAnalyze(message.payload ?? {});
+          await handleRequestAnalyze(host, message.payload ?? {});
+          break;
+
+        case "REQUEST_COMPARE":
+          await handleRequestCompare(host, message.payload ?? {});
+          break;
+
+        case "CANCEL_ANALYZE":
+          handleCancelAnalyze(host);
           break;
 
         case "GET_AUTH_STATE":
-          panel?.webview.postMessage({
-            type: "AUTH_STATE",
-            payload: {
-              isAuthenticated: !!authToken && !!authUser,
-              user: authUser,
-            },
-          });
+          postConfigState();
+          postModelCatalog();
+          postModelPreferences();
+          postQueueState();
+          postAuthState();
+          flushUndeliveredMessage(host);
+          break;
+
+        case "SAVE_STATE":
+          await context.workspaceState.update(
+            stateKeyFor(host),
+            message.payload
+          );
           break;
 
         case "OPEN_LOGIN":
           // 🔓 브라우저로 로그인 페이지 열기 (기존 플로우 유지하고 싶으면 사용)
           vscode.env.openExternal(
-            vscode.Uri.parse(`${FRONTEND_URL}/login?from=extension`)
+            vscode.Uri.parse(
+              `${getEndpoints().frontendUrl}/login?from=extension`
+            )
           );
           break;
 
         case "OPEN_TOKEN_PAGE":
           // 🔓 VS Code용 토큰 발급 페이지 열기
-          vscode.env.openExternal(vscode.Uri.parse(`${FRONTEND_URL}`));
+          vscode.env.openExternal(vscode.Uri.parse(getEndpoints().frontendUrl));
           break;
 
         case "SET_TOKEN": {
-          const token = message.payload?.token as string | undefined;
+          const token = message.payload.token;
           if (!token) {
-            panel?.webview.postMessage({
+            postToWebview(host, {
               type: "TOKEN_ERROR",
               payload: "토큰이 비어 있습니다.",
             });
@@ -312,27 +650,77 @@ function ensureWebviewPanel(context: vscode.ExtensionContext) {
           break;
         }
 
-        default:
-          console.warn("[DKMV] Unknown message.type from webview:", message);
+        case "LOGOUT":
+          await logout(context);
+          break;
+
+        case "EXPORT_REPORT":
+          await handleExportReport(message.payload);
+          break;
+
+        case "TOGGLE_FAVORITE_MODEL":
+          if (message.payload.modelId) {
+            await toggleFavoriteModel(message.payload.modelId);
+          }
+          break;
       }
     },
     undefined,
     context.subscriptions
   );
+}
 
-  panel.onDidDispose(
-    () => {
-      panel = undefined;
-    },
-    null,
-    context.subscriptions
+/**
+ * 🌐 현재 활성 프로필의 엔드포인트를 웹뷰에 전달
+ */
+function postConfigState() {
+  const { profile, authApiBase, reviewApiBase, frontendUrl } = getEndpoints();
+  broadcastToWebviews({
+    type: "CONFIG_STATE",
+    payload: { profile, authApiBase, reviewApiBase, frontendUrl },
+  });
+}
+
+/**
+ * 🤖 현재 모델 카탈로그를 웹뷰에 전달
+ */
+function postModelCatalog() {
+  broadcastToWebviews({
+    type: "MODEL_CATALOG",
+    payload: getModelCatalog(),
+  });
+}
+
+/**
+ * ⭐ 기본 모델 / 즐겨찾기 / 최근 사용 모델을 웹뷰에 전달
+ */
+function postModelPreferences() {
+  broadcastToWebviews({
+    type: "MODEL_PREFERENCES",
+    payload: getModelPreferences(),
+  });
+}
+
+/**
+ * 📮 오프라인 대기열에 남은 리뷰 수를 웹뷰에 전달
+ */
+function postQueueState() {
+  broadcastToWebviews({
+    type: "QUEUE_STATE",
+    payload: { pending: getPendingReviewCount() },
+  });
+}
+
+function refreshModelCatalogQuietly() {
+  void refreshModelCatalog().catch((error) =>
+    console.warn("[DKMV] model catalog refresh failed:", error)
   );
 }
 
-async function handleRequestFullDocument() {
+async function handleRequestFullDocument(host: AnalyzerHost) {
   const active = vscode.window.activeTextEditor;
   if (!active) {
-    panel?.webview.postMessage({
+    postToWebview(host, {
       type: "ANALYZE_ERROR",
       payload: "열려 있는 파일이 없습니다.",
     });
@@ -341,7 +729,7 @@ async function handleRequestFullDocument() {
 
   const fullCode = active.document.getText();
   if (!fullCode.trim()) {
-    panel?.webview.postMessage({
+    postToWebview(host, {
       type: "ANALYZE_ERROR",
       payload: "현재 파일이 비어 있습니다.",
     });
@@ -351,7 +739,7 @@ async function handleRequestFullDocument() {
   const fullFilePath = active.document.uri.fsPath;
   const fullLanguageId = active.document.languageId;
 
-  panel?.webview.postMessage({
+  postToWebview(host, {
     type: "NEW_CODE",
     payload: {
       code: fullCode,
@@ -359,25 +747,32 @@ async function handleRequestFullDocument() {
       filePath: fullFilePath,
       languageId: fullLanguageId,
       mode: "document",
+      selectionStart: null,
     },
   });
 }
 
 /**
- * 코드 분석 요청:
+ * 코드 분석 요청 (실제 흐름은 reviewRunner.runReview):
  *  1) POST /v1/reviews/request   → 리뷰 생성 + review_id 받기
- *  2) GET  /v1/reviews/{id}      → 실제 리뷰 결과 조회
- * 각 단계마다 ANALYZE_PROGRESS로 단계 표시
+ *  2) GET  /v1/reviews/{id}/events (SSE) 또는 GET /v1/reviews/{id} 폴링
+ * 각 단계마다 ANALYZE_PROGRESS / ANALYZE_STAGE, 코멘트 조각은 ANALYZE_PARTIAL,
+ * CANCEL_ANALYZE 로 중단 가능
  */
-async function handleRequestAnalyze(payload: {
-  code?: string;
-  filePath?: string;
-  languageId?: string;
-  model?: string;
-}) {
+async function handleRequestAnalyze(
+  host: AnalyzerHost,
+  payload: {
+    code?: string;
+    filePath?: string;
+    languageId?: string;
+    model?: string;
+    selectionStart?: SelectionStart | null;
+    force?: boolean;
+  }
+) {
   // 🔐 로그인 강제: 토큰 없으면 거절
   if (!authToken || !authUser) {
-    panel?.webview.postMessage({
+    postToWebview(host, {
       type: "ANALYZE_ERROR",
       payload: "분석을 사용하려면 VS Code 토큰을 먼저 설정해야 합니다.",
     });
@@ -390,7 +785,7 @@ async function handleRequestAnalyze(payload: {
 
   const codeSnippet = payload.code ?? "";
   if (!codeSnippet.trim()) {
-    panel?.webview.postMessage({
+    postToWebview(host, {
       type: "ANALYZE_ERROR",
       payload: "분석할 코드가 비어 있습니다.",
     });
@@ -400,185 +795,452 @@ async function handleRequestAnalyze(payload: {
   const filePathForReq = payload.filePath ?? fallbackFilePath;
   const languageForReq =
     payload.languageId ?? (fallbackLanguageId || "plaintext");
-  const modelForReq = payload.model ?? "qwen2.5-coder-7b";
+  // 웹뷰에서 고르지 않았으면 dkmv.defaultModel → 최근 사용
+  const modelForReq = payload.model || getPreferredModel();
+  if (!modelForReq) {
+    postToWebview(host, {
+      type: "ANALYZE_ERROR",
+      payload:
+        "리뷰에 사용할 모델을 선택해 주세요. (dkmv.defaultModel 설정으로 기본 모델을 지정할 수 있습니다)",
+    });
+    return;
+  }
+
+  // 이 웹뷰의 이전 요청이 아직 대기 중이면 중단하고 새 요청으로 교체
+  const abort = beginHostRequest(host);
+
+  // 수동 분석에 쓴 모델은 최근 사용으로 기억 (자동 리뷰 / 일괄 리뷰 기본값)
+  void recordRecentModel(modelForReq);
+
+  const job: ReviewJob = {
+    code: codeSnippet,
+    languageId: languageForReq,
+    model: modelForReq,
+    trigger: "manual",
+    force: payload.force,
+    filePath: filePathForReq || undefined,
+    selectionStart: payload.selectionStart ?? null,
+  };
 
   try {
-    // 1/6: LLM 요청 준비
-    panel?.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: "1/6 • LLM 리뷰 요청을 준비 중입니다...",
-    });
+    // 💾 캐시 히트면 바로 결과 (웹뷰의 "다시 실행" 은 force: true 로 캐시를 건너뜀)
+    const outcome = await runReview(
+      job,
+      { token: authToken, userId: authUser.id },
+      {
+        signal: abort.signal,
+        onProgress: (message) =>
+          postToWebview(host, {
+            type: "ANALYZE_PROGRESS",
+            payload: message,
+          }),
+        // 📡 실제 단계 / 카테고리 코멘트 조각 (스트리밍 서버)
+        onStage: (stage) =>
+          postToWebview(host, {
+            type: "ANALYZE_STAGE",
+            payload: stage,
+          }),
+        onPartial: (category, text) =>
+          postToWebview(host, {
+            type: "ANALYZE_PARTIAL",
+            payload: { category, text },
+          }),
+      }
+    );
 
-    const nowIso = new Date().toISOString();
-
-    const body: ReviewRequestPayload = {
-      meta: {
-        user_id: authUser?.id ?? null,
-        review_id: null,
-        version: "v1",
-        actor: "vscode-extension",
-        code_fingerprint: null,
-        model: modelForReq,
-        result: {
-          result_ref: null,
-          error_message: null,
-        },
-        audit: {
-          created_at: nowIso,
-          updated_at: nowIso,
-        },
-      },
-      body: {
-        snippet: {
-          code: codeSnippet,
-          language: languageForReq,
+    await publishIssuesForTarget(
+      filePathForReq,
+      payload.selectionStart,
+      outcome.result,
+      outcome.reviewId
+    );
+
+    postAnalyzeResult(host, outcome);
+  } catch (error) {
+    // 🛑 사용자가 취소했거나, 더 새로운 요청으로 교체된 경우
+    if (error instanceof ReviewCancelledError || abort.signal.aborted) {
+      if (host.abort === abort) {
+        postToWebview(host, {
+          type: "ANALYZE_CANCELLED",
+          payload: "리뷰 요청을 취소했습니다.",
+        });
+      }
+      return;
+    }
+
+    // 📮 서버에 닿지 못함: 대기열에 넣고 연결되면 자동으로 다시 보냄
+    if (error instanceof ReviewNotSentError) {
+      const pending = await enqueueReview(job, payload.selectionStart ?? null);
+      postToWebview(host, {
+        type: "ANALYZE_QUEUED",
+        payload: {
+          message: `서버에 연결할 수 없어 리뷰를 대기열에 넣었습니다. 연결되면 자동으로 다시 요청합니다. (대기 ${pending}건)`,
+          pending,
         },
-        trigger: "manual",
-      },
-    };
+      });
+      return;
+    }
+
+    const messageText = describeError(
+      error,
+      "서버 요청 중 알 수 없는 오류가 발생했습니다."
+    );
 
-    // 2/6: POST /v1/reviews/request
-    panel?.webview.postMessage({
+    postToWebview(host, {
       type: "ANALYZE_PROGRESS",
-      payload: "2/6 • LLM 서버로 리뷰 요청을 전송 중입니다...",
+      payload: "⚠️ 리뷰 처리 중 오류가 발생했습니다.",
     });
 
-    const postResp = await fetch(REVIEW_REQUEST_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${authToken}`,
-      },
-      body: JSON.stringify(body),
+    postToWebview(host, {
+      type: "ANALYZE_ERROR",
+      payload: messageText,
     });
-
-    const postText = await postResp.text();
-    if (!postResp.ok) {
-      throw new Error(`리뷰 생성 실패 (HTTP ${postResp.status}): ${postText}`);
+  } finally {
+    if (host.abort === abort) {
+      host.abort = null;
     }
+  }
+}
+
+/**
+ * ⚖️ 모델 비교: 같은 코드를 여러 모델로 동시에 리뷰
+ *  - 모델 하나가 끝날 때마다 COMPARE_UPDATE (done: false), 전부 끝나면 done: true
+ *  - 취소는 일반 분석과 같은 CANCEL_ANALYZE 사용
+ */
+async function handleRequestCompare(
+  host: AnalyzerHost,
+  payload: {
+    code?: string;
+    filePath?: string;
+    languageId?: string;
+    models?: string[];
+    force?: boolean;
+  }
+) {
+  const postError = (text: string) =>
+    postToWebview(host, { type: "ANALYZE_ERROR", payload: text });
 
-    let reviewId: number | null = null;
-    let postJson: any = null;
+  if (!authToken || !authUser) {
+    postError("분석을 사용하려면 VS Code 토큰을 먼저 설정해야 합니다.");
+    return;
+  }
 
-    try {
-      postJson = JSON.parse(postText);
-      reviewId = postJson?.body?.review_id ?? null;
-    } catch {
-      // JSON 파싱 실패 시 그대로 넘어감
+  const code = payload.code ?? "";
+  if (!code.trim()) {
+    postError("분석할 코드가 비어 있습니다.");
+    return;
+  }
+
+  const models = Array.from(
+    new Set((payload.models ?? []).filter((m) => typeof m === "string" && m))
+  );
+  if (models.length < 2 || models.length > MAX_COMPARE_MODELS) {
+    postError(`비교할 모델을 2 ~ ${MAX_COMPARE_MODELS}개 선택해 주세요.`);
+    return;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  const filePath = payload.filePath ?? editor?.document.uri.fsPath ?? "";
+  const languageId =
+    payload.languageId || editor?.document.languageId || "plaintext";
+
+  const abort = beginHostRequest(host);
+
+  try {
+    await runModelComparison(
+      {
+        code,
+        languageId,
+        trigger: "manual",
+        force: payload.force,
+        filePath: filePath || undefined,
+      },
+      models,
+      { token: authToken, userId: authUser.id },
+      abort.signal,
+      (entries) =>
+        postToWebview(host, {
+          type: "COMPARE_UPDATE",
+          payload: {
+            entries,
+            done: entries.every((e) => e.status !== "running"),
+          },
+        })
+    );
+
+    if (abort.signal.aborted && host.abort === abort) {
+      postToWebview(host, {
+        type: "ANALYZE_CANCELLED",
+        payload: "모델 비교를 취소했습니다.",
+      });
+    }
+  } finally {
+    if (host.abort === abort) {
+      host.abort = null;
     }
+  }
+}
 
-    if (reviewId == null) {
-      throw new Error("리뷰 생성 응답에서 review_id를 찾을 수 없습니다.");
+function postAnalyzeResult(host: AnalyzerHost, outcome: ReviewOutcome) {
+  postToWebview(host, {
+    type: "ANALYZE_RESULT",
+    payload: {
+      phase: "success",
+      review_id: outcome.reviewId,
+      model: outcome.model,
+      cached: outcome.cached,
+      cached_at: outcome.cachedAt,
+      request_payload: outcome.requestPayload,
+      raw_review_response: outcome.rawResponse,
+      analyzer_result: outcome.result,
+    },
+  });
+}
+
+/**
+ * 💾→🔍 자동 리뷰 결과 처리
+ *  - Diagnostics 는 항상 갱신
+ *  - 그 파일을 받을 패널이 이미 열려 있고 수동 분석 중이 아닐 때만 결과 전달 (reveal/포커스 X)
+ */
+async function handleAutoReviewResult(
+  document: vscode.TextDocument,
+  outcome: ReviewOutcome
+) {
+  await publishIssuesForTarget(
+    document.uri.fsPath,
+    null,
+    outcome.result,
+    outcome.reviewId
+  );
+
+  const fileName = vscode.workspace.asRelativePath(document.uri);
+  vscode.window.setStatusBarMessage(
+    `DKMV: 자동 리뷰 완료 — ${fileName} (${outcome.result.quality_score}점)`,
+    5000
+  );
+
+  const host = findPanelHost(document.uri.fsPath);
+  if (!host || host.abort) return;
+
+  postToWebview(host, {
+    type: "NEW_CODE",
+    payload: {
+      code: document.getText(),
+      fileName: document.fileName,
+      filePath: document.uri.fsPath,
+      languageId: document.languageId,
+      mode: "document",
+      selectionStart: null,
+    },
+  });
+  postAnalyzeResult(host, outcome);
+}
+
+/**
+ * 📮 대기열에 있던 리뷰가 연결 복구 후 끝났을 때
+ *  - Diagnostics 는 항상 갱신
+ *  - 수동 분석이었으면 알림의 [결과 보기] 로 패널에 표시 (지금 보고 있는 결과를 덮지 않도록)
+ */
+async function handleQueuedReviewCompleted(
+  context: vscode.ExtensionContext,
+  item: QueuedReview,
+  outcome: ReviewOutcome
+) {
+  const { job } = item;
+  await publishIssuesForTarget(
+    job.filePath ?? "",
+    item.selection_start,
+    outcome.result,
+    outcome.reviewId
+  );
+
+  const target = job.filePath
+    ? vscode.workspace.asRelativePath(job.filePath)
+    : `review #${outcome.reviewId ?? "-"}`;
+  const text = `DKMV: 대기 중이던 리뷰가 완료되었습니다 — ${target} (${outcome.result.quality_score}점)`;
+
+  if (job.trigger !== "manual") {
+    // 자동 리뷰 → 다음 저장 때의 변경량 비교 기준도 갱신
+    if (job.filePath) {
+      await recordAutoReviewBaseline(
+        vscode.Uri.file(job.filePath),
+        outcome.fingerprint,
+        job.code
+      );
     }
+    vscode.window.setStatusBarMessage(text, 5000);
+    return;
+  }
 
-    // 3/6: LLM 요청 성공
-    panel!.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: `3/6 • LLM 리뷰 요청 성공 (review_id: ${reviewId}). LLM 응답을 기다리는 중입니다...`,
+  // 알림을 기다리지 않음 (기다리면 사용자가 누를 때까지 대기열이 멈춤)
+  void vscode.window
+    .showInformationMessage(text, "결과 보기")
+    .then((choice) => {
+      if (choice !== "결과 보기") return;
+      openHistoryInPanel(context, {
+        reviewId: outcome.reviewId,
+        filePath: job.filePath ?? null,
+        model: outcome.model,
+        languageId: job.languageId,
+        code: job.code,
+        result: outcome.result,
+        createdAt: item.queued_at,
+      });
     });
+}
 
-    // 4/6: 결과 조회 준비
-    panel!.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: "4/6 • 서버에 저장된 리뷰 결과를 가져올 준비를 하고 있습니다...",
-    });
+/**
+ * 📤 문서(또는 범위)를 패널로 보내기 — dkmv.analyzeSelection / CodeLens 공통
+ *  - range 가 있으면 선택 영역 모드 (Diagnostics 는 시작 위치만큼 offset)
+ */
+function sendCodeToPanel(
+  context: vscode.ExtensionContext,
+  document: vscode.TextDocument,
+  range: vscode.Range | null
+) {
+  const code = range ? document.getText(range) : document.getText();
 
-    // 5/6: GET /v1/reviews/{review_id}
-    const getUrl = `${REVIEW_GET_URL}/${reviewId}`;
-    panel!.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: "5/6 • 서버에서 리뷰 결과를 가져오는 중입니다...",
-    });
+  if (!code.trim()) {
+    vscode.window.showInformationMessage("분석할 코드가 비어 있습니다.");
+    return;
+  }
 
-    const getResp = await fetch(getUrl, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-        Authorization: `Bearer ${authToken}`,
-      },
-    });
+  const host = ensureWebviewPanel(context, document.uri.fsPath);
 
-    const getText = await getResp.text();
-    if (!getResp.ok) {
-      throw new Error(`리뷰 조회 실패 (HTTP ${getResp.status}): ${getText}`);
-    }
+  postToWebview(host, {
+    type: "NEW_CODE",
+    payload: {
+      code,
+      fileName: document.fileName,
+      filePath: document.uri.fsPath,
+      languageId: document.languageId,
+      mode: range ? "selection" : "document",
+      selectionStart: range
+        ? {
+            line: range.start.line,
+            character: range.start.character,
+          }
+        : null,
+    },
+  });
+}
 
-    let getJson: any = null;
-    try {
-      getJson = JSON.parse(getText);
-    } catch {
-      getJson = getText;
-    }
+/**
+ * 🕘 리뷰 기록 항목을 패널에 다시 표시 (코드 탭 + 같은 ResultPanel 렌더링)
+ */
+function openHistoryInPanel(
+  context: vscode.ExtensionContext,
+  item: OpenedHistoryItem
+) {
+  const host = ensureWebviewPanel(context, item.filePath);
 
-    const analyzerResult = extractAnalyzerResultFromResponse(getJson);
+  postToWebview(host, {
+    type: "NEW_CODE",
+    payload: {
+      code: item.code,
+      fileName:
+        item.filePath ??
+        (item.reviewId != null ? `review #${item.reviewId}` : "review"),
+      filePath: item.filePath ?? "",
+      languageId: item.languageId,
+      mode: "document",
+      selectionStart: null,
+    },
+  });
 
-    // 6/6: 최종 성공
-    panel!.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: "6/6 • 리뷰 결과 수신 완료! 분석 내용을 표시합니다.",
-    });
+  postToWebview(host, {
+    type: "ANALYZE_RESULT",
+    payload: {
+      phase: "success",
+      review_id: item.reviewId,
+      model: item.model,
+      cached: false,
+      cached_at: null,
+      history_at: item.createdAt ?? "",
+      request_payload: null,
+      raw_review_response: null,
+      analyzer_result: item.result,
+    },
+  });
+}
 
-    panel!.webview.postMessage({
-      type: "ANALYZE_RESULT",
-      payload: {
-        phase: "success",
-        review_id: reviewId,
-        request_payload: body,
-        raw_review_response: getJson,
-        analyzer_result: analyzerResult,
-      },
-    });
+/**
+ * 🩺 결과의 이슈를 리뷰한 파일의 Diagnostics 로 게시
+ *  (선택 영역이면 시작 위치만큼 offset)
+ */
+async function publishIssuesForTarget(
+  filePath: string,
+  selectionStart: SelectionStart | null | undefined,
+  analyzerResult: AnalyzerResult,
+  reviewId: number | null
+) {
+  if (!filePath) return;
+  await publishReviewDiagnostics(
+    {
+      uri: vscode.Uri.file(filePath),
+      startLine: selectionStart?.line ?? 0,
+      startCharacter: selectionStart?.character ?? 0,
+    },
+    analyzerResult.issues,
+    reviewId
+  );
+}
+
+/**
+ * 📝 웹뷰의 Markdown / HTML 내보내기 버튼
+ */
+async function handleExportReport(payload: {
+  format: ReportFormat;
+  meta: ReportMeta;
+  analyzer_result: unknown;
+}) {
+  try {
+    const result = parseAnalyzerResult(payload.analyzer_result);
+    await exportReviewReport(payload.format, payload.meta, result);
   } catch (error) {
-    const messageText =
-      error instanceof Error
-        ? error.message
-        : "서버 요청 중 알 수 없는 오류가 발생했습니다.";
+    vscode.window.showErrorMessage(
+      `DKMV: 리포트를 내보내지 못했습니다. ${describeError(
+        error,
+        "알 수 없는 오류"
+      )}`
+    );
+  }
+}
 
-    panel?.webview.postMessage({
-      type: "ANALYZE_PROGRESS",
-      payload: "⚠️ 리뷰 처리 중 오류가 발생했습니다.",
-    });
+/**
+ * ⏳ 웹뷰별 진행 중인 요청 — 같은 웹뷰의 이전 요청은 중단하고 교체
+ *  (다른 패널의 리뷰는 그대로 진행되므로 나란히 비교 가능)
+ */
+function beginHostRequest(host: AnalyzerHost): AbortController {
+  host.abort?.abort();
+  const abort = new AbortController();
+  host.abort = abort;
+  return abort;
+}
 
-    panel?.webview.postMessage({
-      type: "ANALYZE_ERROR",
-      payload: messageText,
-    });
-  }
+/**
+ * 🛑 진행 중인 리뷰 대기 중단 (웹뷰의 취소 버튼 → CANCEL_ANALYZE)
+ */
+function handleCancelAnalyze(host: AnalyzerHost) {
+  if (!host.abort) return;
+  host.abort.abort();
 }
 
-// 응답 안에서 AnalyzerResult 후보를 찾는 헬퍼
-function extractAnalyzerResultFromResponse(resp: any): any {
-  if (!resp || typeof resp !== "object") return resp;
-
-  const candidates = [
-    resp?.analyzer_result,
-    resp?.body?.review,
-    resp?.body?.result,
-    resp?.body,
-    resp?.review,
-    resp,
-  ];
-
-  for (const c of candidates) {
-    if (!c || typeof c !== "object") continue;
-    if (
-      "quality_score" in c ||
-      "qualityScore" in c ||
-      "global_score" in c ||
-      "review_summary" in c ||
-      "scores_by_category" in c ||
-      "review_details" in c ||
-      "issues" in c
-    ) {
-      return c;
-    }
+/**
+ * 에러 → 웹뷰/알림에 보여줄 문구
+ *  - 응답 스키마 불일치는 어떤 필드가 잘못됐는지 포함
+ */
+function describeError(error: unknown, fallback: string): string {
+  if (error instanceof SchemaError) {
+    return `서버 응답 형식이 예상과 다릅니다: ${error.message}`;
   }
-  return resp;
+  return error instanceof Error ? error.message : fallback;
 }
 
 function getWebviewHtml(
   webview: vscode.Webview,
-  extensionUri: vscode.Uri
+  extensionUri: vscode.Uri,
+  savedState: PersistedWebviewState | null
 ): string {
   const scriptUri = webview.asWebviewUri(
     vscode.Uri.joinPath(extensionUri, "media", "webview.js")
@@ -595,7 +1257,9 @@ function getWebviewHtml(
       <head>
         <meta charset="UTF-8" />
         <meta http-equiv="Content-Security-Policy"
-          content="default-src 'none'; img-src ${webview.cspSource} https:; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';" />
+          content="default-src 'none'; img-src ${
+            webview.cspSource
+          } https:; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';" />
         <meta name="viewport" content="width=device-width, initial-scale=1.0" />
         <title>DKMV Analyzer</title>
       </head>
@@ -609,6 +1273,7 @@ function getWebviewHtml(
               window.process = { env: { NODE_ENV: "production" } };
             }
             window.__DKMV_LOGO__ = "${logoUri}";
+            window.__DKMV_STATE__ = ${serializeForScript(savedState)};
           })();
         </script>
 
@@ -618,6 +1283,11 @@ function getWebviewHtml(
   `;
 }
 
+// <script> 안에 넣을 JSON (</script> 등으로 태그가 끝나지 않도록 < 를 이스케이프)
+function serializeForScript(value: unknown): string {
+  return JSON.stringify(value ?? null).replace(/</g, "\\u003c");
+}
+
 function getNonce() {
   let text = "";
   const possible =
@@ -0,0 +1,165 @@
+// src/extension/analyzerHosts.ts
+// 🪟 분석기 웹뷰 목록: 에디터 패널(여러 개) + 액티비티 바 사이드바 뷰
+//  - 웹뷰마다 진행 중인 리뷰를 따로 들고 있음 → 결과는 요청을 보낸 웹뷰로
+//  - dkmv.panel.mode 로 명령(선택 영역 분석 / CodeLens / 기록 열기)이 쓸 패널을 고름
+import * as path from "path";
+import * as vscode from "vscode";
+
+export const ANALYZER_PANEL_TYPE = "dkmvAnalyzer";
+export const ANALYZER_VIEW_ID = "dkmv.analyzer";
+
+// single: 패널 하나를 재사용 / perFile: 파일마다 패널 / perReview: 리뷰마다 새 패널
+export type PanelMode = "single" | "perFile" | "perReview";
+
+export type AnalyzerHost = {
+  kind: "panel" | "view";
+  webview: vscode.Webview;
+  // 마지막으로 보낸 코드의 파일 (perFile 패널 찾기용, 아직 없으면 null)
+  filePath: string | null;
+  // 이 웹뷰에서 시작한 리뷰 (CANCEL_ANALYZE 시 abort)
+  abort: AbortController | null;
+  reveal: () => void;
+};
+
+type PanelEntry = {
+  host: AnalyzerHost;
+  panel: vscode.WebviewPanel;
+};
+
+// 최근에 활성화된 패널이 앞
+const panels: PanelEntry[] = [];
+let viewHost: AnalyzerHost | undefined;
+
+export function getPanelMode(): PanelMode {
+  const mode = vscode.workspace
+    .getConfiguration("dkmv")
+    .get<string>("panel.mode", "single");
+  return mode === "perFile" || mode === "perReview" ? mode : "single";
+}
+
+export function getAnalyzerHosts(): AnalyzerHost[] {
+  const hosts = panels.map((entry) => entry.host);
+  return viewHost ? [...hosts, viewHost] : hosts;
+}
+
+export function isAnalyzerHostOpen(host: AnalyzerHost): boolean {
+  return getAnalyzerHosts().includes(host);
+}
+
+function panelTitle(filePath: string | null): string {
+  return filePath && getPanelMode() !== "single"
+    ? `DKMV: ${path.basename(filePath)}`
+    : "DKMV Analyzer";
+}
+
+/**
+ * 웹뷰에 새 코드를 보낼 때 호출 — 파일별 패널이면 제목도 파일 이름으로
+ */
+export function setHostFilePath(host: AnalyzerHost, filePath: string | null) {
+  host.filePath = filePath;
+  const entry = panels.find((e) => e.host === host);
+  if (entry) entry.panel.title = panelTitle(filePath);
+}
+
+/**
+ * 📤 명령이 코드를 보낼 패널 (없으면 undefined → 호출자가 새로 만듦)
+ *  - single: 마지막으로 활성화된 패널
+ *  - perFile: 그 파일을 보여 주고 있는 패널
+ *  - perReview: 항상 새 패널 (이미 열린 결과를 덮지 않음)
+ */
+export function findPanelHost(
+  filePath: string | null
+): AnalyzerHost | undefined {
+  switch (getPanelMode()) {
+    case "perReview":
+      return undefined;
+    case "perFile":
+      if (!filePath) return undefined;
+      return panels.find((e) => e.host.filePath === filePath)?.host;
+    default:
+      return panels[0]?.host;
+  }
+}
+
+export function getActivePanelHost(): AnalyzerHost | undefined {
+  return panels[0]?.host;
+}
+
+export function createAnalyzerPanel(
+  filePath: string | null
+): vscode.WebviewPanel {
+  return vscode.window.createWebviewPanel(
+    ANALYZER_PANEL_TYPE,
+    panelTitle(filePath),
+    vscode.ViewColumn.Beside,
+    {
+      enableScripts: true,
+    }
+  );
+}
+
+/**
+ * 새로 만들었거나 (serializer 가) 복원한 패널을 목록에 추가
+ */
+export function addPanelHost(
+  panel: vscode.WebviewPanel,
+  filePath: string | null
+): AnalyzerHost {
+  const host: AnalyzerHost = {
+    kind: "panel",
+    webview: panel.webview,
+    filePath,
+    abort: null,
+    reveal: () => panel.reveal(panel.viewColumn),
+  };
+  const entry: PanelEntry = { host, panel };
+  panels.unshift(entry);
+
+  panel.onDidChangeViewState((e) => {
+    if (!e.webviewPanel.active) return;
+    const index = panels.indexOf(entry);
+    if (index > 0) {
+      panels.splice(index, 1);
+      panels.unshift(entry);
+    }
+  });
+  // 진행 중인 리뷰는 계속 — 결과는 다시 연 웹뷰로 전달 (extension.ts)
+  panel.onDidDispose(() => {
+    const index = panels.indexOf(entry);
+    if (index >= 0) panels.splice(index, 1);
+  });
+  return host;
+}
+
+/**
+ * 📌 액티비티 바의 분석기 뷰 등록 — 뷰가 처음 보일 때 onResolve 로 HTML / 메시지 핸들러 연결
+ */
+export function registerAnalyzerView(
+  context: vscode.ExtensionContext,
+  onResolve: (host: AnalyzerHost) => void
+) {
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(
+      ANALYZER_VIEW_ID,
+      {
+        resolveWebviewView(view) {
+          view.webview.options = { enableScripts: true };
+          const host: AnalyzerHost = {
+            kind: "view",
+            webview: view.webview,
+            filePath: null,
+            abort: null,
+            reveal: () => view.show(true),
+          };
+          viewHost = host;
+          view.onDidDispose(() => {
+            if (viewHost === host) viewHost = undefined;
+          });
+          onResolve(host);
+        },
+      },
+      // 사이드바를 접어도 진행 중인 리뷰 결과를 받을 수 있도록
+      { webviewOptions: { retainContextWhenHidden: true } }
+    )
+  );
+}
@@ -0,0 +1,239 @@
+// src/extension/autoReview.ts
+// 💾→🔍 저장 시 자동 리뷰 (trigger: "auto", 기본 꺼짐)
+import * as vscode from "vscode";
+
+import { computeCodeFingerprint } from "./fingerprint";
+import { ReviewNotSentError, runReview } from "./reviewRunner";
+import type { ReviewAuth, ReviewJob, ReviewOutcome } from "./reviewRunner";
+import { enqueueReview } from "./offlineQueue";
+
+export type AutoReviewSettings = {
+  enabled: boolean;
+  include: string[];
+  exclude: string[];
+  minChangedLines: number;
+  debounceMs: number;
+  model: string;
+};
+
+export type AutoReviewDeps = {
+  getAuth: () => ReviewAuth | null;
+  // dkmv.autoReview.model 이 비어있을 때 사용할 모델
+  getFallbackModel: () => string | null;
+  onResult: (
+    document: vscode.TextDocument,
+    outcome: ReviewOutcome
+  ) => Promise<void> | void;
+};
+
+// 파일별 마지막 자동 리뷰 내용 (workspaceState, 재시작 후에도 변경량 비교 가능)
+//  - 최근에 리뷰한 MAX_BASELINES 개 파일만 유지
+const BASELINES_KEY = "dkmv.autoReview.baselines";
+const MAX_BASELINES = 50;
+// 예전 버전이 쓰던 fingerprint 기록 (내용이 없어 변경량 비교에 못 씀 → 삭제)
+const LEGACY_FINGERPRINTS_KEY = "dkmv.autoReview.lastFingerprints";
+
+type ReviewBaseline = {
+  fingerprint: string;
+  text: string;
+};
+
+let workspaceState: vscode.Memento | undefined;
+
+function getBaselines(): Record<string, ReviewBaseline> {
+  return (
+    workspaceState?.get<Record<string, ReviewBaseline>>(BASELINES_KEY) ?? {}
+  );
+}
+
+// 최근에 리뷰한 파일이 뒤로 가도록 다시 넣고, 오래된 것부터 버림
+async function saveBaseline(key: string, baseline: ReviewBaseline) {
+  if (!workspaceState) return;
+  const rest = Object.entries(getBaselines()).filter(([k]) => k !== key);
+  await workspaceState.update(
+    BASELINES_KEY,
+    Object.fromEntries(
+      [...rest, [key, baseline] as const].slice(-MAX_BASELINES)
+    )
+  );
+}
+
+/**
+ * 📮 대기열에 있던 자동 리뷰가 나중에 끝났을 때 — 그 내용을 다음 비교 기준으로
+ */
+export async function recordAutoReviewBaseline(
+  uri: vscode.Uri,
+  fingerprint: string,
+  text: string
+): Promise<void> {
+  await saveBaseline(uri.toString(), { fingerprint, text });
+}
+
+export function getAutoReviewSettings(): AutoReviewSettings {
+  const config = vscode.workspace.getConfiguration("dkmv.autoReview");
+  return {
+    enabled: config.get<boolean>("enabled", false),
+    include: config.get<string[]>("include", []),
+    exclude: config.get<string[]>("exclude", []),
+    minChangedLines: Math.max(0, config.get<number>("minChangedLines", 3)),
+    debounceMs: Math.max(0, config.get<number>("debounceMs", 1500)),
+    model: config.get<string>("model", "").trim(),
+  };
+}
+
+function matchesAny(document: vscode.TextDocument, globs: string[]): boolean {
+  return globs.some(
+    (pattern) => vscode.languages.match({ pattern }, document) > 0
+  );
+}
+
+export function isAutoReviewTarget(
+  document: vscode.TextDocument,
+  settings: AutoReviewSettings
+): boolean {
+  if (document.uri.scheme !== "file") return false;
+  if (!matchesAny(document, settings.include)) return false;
+  return !matchesAny(document, settings.exclude);
+}
+
+/**
+ * 이전에 리뷰한 내용과 비교해서 바뀐 줄 수 (순서 무시, 줄 단위 다중집합 차이)
+ */
+export function countChangedLines(previous: string, current: string): number {
+  const counts = new Map<string, number>();
+  for (const line of previous.split(/\r?\n/)) {
+    const key = line.trim();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  let added = 0;
+  for (const line of current.split(/\r?\n/)) {
+    const key = line.trim();
+    const n = counts.get(key) ?? 0;
+    if (n > 0) {
+      counts.set(key, n - 1);
+    } else {
+      added += 1;
+    }
+  }
+
+  let removed = 0;
+  for (const n of counts.values()) removed += n;
+
+  return Math.max(added, removed);
+}
+
+/**
+ * 저장 이벤트 → (디바운스) → fingerprint/변경량 확인 → runReview
+ *  - 포커스를 가져가지 않도록 결과는 deps.onResult 로만 넘김
+ */
+export function registerAutoReview(
+  context: vscode.ExtensionContext,
+  deps: AutoReviewDeps
+) {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const inFlight = new Map<string, AbortController>();
+  let warnedNoModel = false;
+
+  workspaceState = context.workspaceState;
+  void context.workspaceState.update(LEGACY_FINGERPRINTS_KEY, undefined);
+
+  const reviewDocument = async (document: vscode.TextDocument) => {
+    const settings = getAutoReviewSettings();
+    const key = document.uri.toString();
+
+    const auth = deps.getAuth();
+    if (!auth) return;
+
+    const model = settings.model || deps.getFallbackModel();
+    if (!model) {
+      if (!warnedNoModel) {
+        warnedNoModel = true;
+        vscode.window.setStatusBarMessage(
+          "DKMV: 자동 리뷰에 사용할 모델이 없습니다. (dkmv.autoReview.model / dkmv.defaultModel 설정 또는 수동 분석 1회 필요)",
+          8000
+        );
+      }
+      return;
+    }
+
+    const code = document.getText();
+    if (!code.trim()) return;
+
+    // 마지막 리뷰 이후 내용이 그대로이거나 조금만 바뀌었으면 건너뜀
+    const fingerprint = computeCodeFingerprint(code, document.languageId);
+    const baseline = getBaselines()[key];
+    if (baseline?.fingerprint === fingerprint) return;
+    if (
+      baseline &&
+      countChangedLines(baseline.text, code) < settings.minChangedLines
+    ) {
+      return;
+    }
+
+    inFlight.get(key)?.abort();
+    const abort = new AbortController();
+    inFlight.set(key, abort);
+
+    const job: ReviewJob = {
+      code,
+      languageId: document.languageId,
+      model,
+      trigger: "auto",
+      filePath: document.uri.fsPath,
+    };
+
+    try {
+      const outcome = await runReview(job, auth, { signal: abort.signal });
+
+      await saveBaseline(key, { fingerprint: outcome.fingerprint, text: code });
+
+      await deps.onResult(document, outcome);
+    } catch (e) {
+      if (abort.signal.aborted) return;
+      // 📮 오프라인: 같은 파일의 이전 대기 건은 최신 내용으로 교체됨
+      if (e instanceof ReviewNotSentError) {
+        const pending = await enqueueReview(job, null);
+        vscode.window.setStatusBarMessage(
+          `DKMV: 서버에 연결할 수 없어 자동 리뷰를 대기열에 넣었습니다. (대기 ${pending}건)`,
+          8000
+        );
+        return;
+      }
+      console.warn("[DKMV] auto review failed", e);
+      vscode.window.setStatusBarMessage(
+        `DKMV: 자동 리뷰 실패 — ${e instanceof Error ? e.message : String(e)}`,
+        8000
+      );
+    } finally {
+      if (inFlight.get(key) === abort) inFlight.delete(key);
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      const settings = getAutoReviewSettings();
+      if (!settings.enabled || !isAutoReviewTarget(document, settings)) {
+        return;
+      }
+
+      const key = document.uri.toString();
+      const pending = timers.get(key);
+      if (pending) clearTimeout(pending);
+
+      timers.set(
+        key,
+        setTimeout(() => {
+          timers.delete(key);
+          void reviewDocument(document);
+        }, settings.debounceMs)
+      );
+    }),
+    {
+      dispose: () => {
+        timers.forEach((t) => clearTimeout(t));
+        inFlight.forEach((a) => a.abort());
+      },
+    }
+  );
+}
@@ -0,0 +1,327 @@
+// src/extension/batchReview.ts
+// 📂 폴더 / 워크스페이스 일괄 리뷰 (동시 요청 수 제한 + 취소 + 통합 리포트)
+import * as vscode from "vscode";
+
+import { publishReviewDiagnostics } from "./diagnostics";
+import { pickReviewModel } from "./modelPicker";
+import { runReview } from "./reviewRunner";
+import type { ReviewAuth, ReviewOutcome } from "./reviewRunner";
+import type { AnalyzerResult } from "../shared/reviewSchema";
+
+export type BatchReviewSettings = {
+  include: string;
+  exclude: string;
+  concurrency: number;
+  maxFiles: number;
+};
+
+export type BatchReviewDeps = {
+  getAuth: () => ReviewAuth | null;
+  getPreferredModel: () => string | null;
+};
+
+export type BatchFileResult = {
+  uri: vscode.Uri;
+  reviewId: number | null;
+  result: AnalyzerResult | null;
+  cached: boolean;
+  error: string | null;
+};
+
+export function getBatchReviewSettings(): BatchReviewSettings {
+  const config = vscode.workspace.getConfiguration("dkmv.batch");
+  return {
+    include: config.get<string>("include", "**/*"),
+    exclude: config.get<string>("exclude", ""),
+    concurrency: Math.min(8, Math.max(1, config.get<number>("concurrency", 3))),
+    maxFiles: Math.max(1, config.get<number>("maxFiles", 200)),
+  };
+}
+
+const countBySeverity = (result: AnalyzerResult, severity: string) =>
+  result.issues.filter(
+    (issue) => issue.issue_severity.toUpperCase() === severity
+  ).length;
+
+/**
+ * 파일별 결과 → 점수 낮은 순 정렬 (실패한 파일은 맨 아래)
+ */
+export function sortBatchResults(results: BatchFileResult[]) {
+  return [...results].sort((a, b) => {
+    if (!a.result || !b.result) {
+      return a.result ? -1 : b.result ? 1 : 0;
+    }
+    return a.result.quality_score - b.result.quality_score;
+  });
+}
+
+/**
+ * 📝 통합 리포트 (Markdown)
+ */
+export function buildBatchReport(
+  root: vscode.Uri,
+  model: string,
+  results: BatchFileResult[],
+  cancelled: boolean,
+  title = "DKMV 일괄 리뷰 리포트"
+): string {
+  const sorted = sortBatchResults(results);
+  const reviewed = sorted.filter((r) => r.result);
+  const failed = sorted.filter((r) => !r.result);
+
+  const average = reviewed.length
+    ? Math.round(
+        reviewed.reduce((sum, r) => sum + (r.result?.quality_score ?? 0), 0) /
+          reviewed.length
+      )
+    : null;
+
+  const lines: string[] = [
+    `# ${title}`,
+    "",
+    `- 대상: \`${vscode.workspace.asRelativePath(root, true)}\``,
+    `- 모델: \`${model}\``,
+    `- 리뷰한 파일: ${reviewed.length}개${
+      failed.length ? ` (실패 ${failed.length}개)` : ""
+    }`,
+    `- 평균 점수: ${average ?? "-"}`,
+    `- 생성 시각: ${new Date().toLocaleString()}`,
+  ];
+
+  if (cancelled) {
+    lines.push("", "> ⚠️ 중간에 취소되어 일부 파일만 포함되어 있습니다.");
+  }
+
+  lines.push(
+    "",
+    "| 파일 | 점수 | HIGH | MEDIUM | LOW | 이슈 합계 | review_id |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | --- |"
+  );
+
+  for (const r of reviewed) {
+    const result = r.result as AnalyzerResult;
+    lines.push(
+      `| ${vscode.workspace.asRelativePath(r.uri)} | ${
+        result.quality_score
+      } | ${countBySeverity(result, "HIGH")} | ${countBySeverity(
+        result,
+        "MEDIUM"
+      )} | ${countBySeverity(result, "LOW")} | ${result.issues.length} | ${
+        r.reviewId ?? "-"
+      }${r.cached ? " (캐시)" : ""} |`
+    );
+  }
+
+  if (failed.length) {
+    lines.push("", "## 실패한 파일", "");
+    for (const r of failed) {
+      lines.push(`- ${vscode.workspace.asRelativePath(r.uri)}: ${r.error}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * 대상 폴더 결정: Explorer 에서 우클릭한 폴더 → 없으면 워크스페이스 폴더
+ */
+async function resolveRoot(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+  if (uri) return uri;
+
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showInformationMessage("열려 있는 워크스페이스가 없습니다.");
+    return undefined;
+  }
+  if (folders.length === 1) return folders[0].uri;
+
+  const folder = await vscode.window.showWorkspaceFolderPick({
+    placeHolder: "일괄 리뷰할 워크스페이스 폴더를 선택하세요.",
+  });
+  return folder?.uri;
+}
+
+/**
+ * 📂 일괄 리뷰 실행
+ *  - dkmv.batch.concurrency 개씩 동시에 요청
+ *  - 알림의 취소 버튼 → 진행 중인 요청 abort + 남은 파일 건너뜀
+ */
+async function reviewFolder(deps: BatchReviewDeps, uri?: vscode.Uri) {
+  const auth = deps.getAuth();
+  if (!auth) {
+    vscode.window.showWarningMessage(
+      "DKMV: 일괄 리뷰를 사용하려면 먼저 토큰을 설정해야 합니다."
+    );
+    return;
+  }
+
+  const root = await resolveRoot(uri);
+  if (!root) return;
+
+  const settings = getBatchReviewSettings();
+
+  const include = await vscode.window.showInputBox({
+    prompt: "리뷰할 파일 glob 패턴",
+    value: settings.include,
+    ignoreFocusOut: true,
+  });
+  if (!include) return;
+
+  const model = await pickReviewModel(deps.getPreferredModel());
+  if (!model) return;
+
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(root, include),
+    settings.exclude || undefined,
+    settings.maxFiles
+  );
+
+  if (files.length === 0) {
+    vscode.window.showInformationMessage("DKMV: 패턴에 맞는 파일이 없습니다.");
+    return;
+  }
+
+  if (files.length >= settings.maxFiles) {
+    vscode.window.showWarningMessage(
+      `DKMV: 파일이 많아 처음 ${settings.maxFiles}개만 리뷰합니다. (dkmv.batch.maxFiles)`
+    );
+  }
+
+  const { results, cancelled } = await runReviewsWithProgress(
+    "DKMV: 일괄 리뷰",
+    files,
+    settings.concurrency,
+    async (file, signal) => {
+      const document = await vscode.workspace.openTextDocument(file);
+      const code = document.getText();
+      if (!code.trim()) return { error: "빈 파일" };
+
+      const outcome = await runReview(
+        {
+          code,
+          languageId: document.languageId,
+          model,
+          trigger: "manual",
+          filePath: file.fsPath,
+        },
+        auth,
+        { signal }
+      );
+      await publishReviewDiagnostics(
+        { uri: file, startLine: 0, startCharacter: 0 },
+        outcome.result.issues,
+        outcome.reviewId
+      );
+      return { outcome };
+    }
+  );
+
+  await showBatchReport(
+    buildBatchReport(root, model, results, cancelled),
+    results.length
+  );
+}
+
+/**
+ * 파일 목록을 concurrency 개씩 동시에 리뷰 (진행률 알림 + 취소 버튼)
+ *  - 취소하면 진행 중인 요청 abort + 남은 파일 건너뜀
+ *  - reviewFile 이 던진 에러는 해당 파일의 error 로 기록
+ */
+export async function runReviewsWithProgress(
+  title: string,
+  files: vscode.Uri[],
+  concurrency: number,
+  reviewFile: (
+    file: vscode.Uri,
+    signal: AbortSignal
+  ) => Promise<{ outcome?: ReviewOutcome; error?: string }>
+): Promise<{ results: BatchFileResult[]; cancelled: boolean }> {
+  const results: BatchFileResult[] = [];
+  let cancelled = false;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const abort = new AbortController();
+      token.onCancellationRequested(() => {
+        cancelled = true;
+        abort.abort();
+      });
+
+      const queue = [...files];
+      const step = 100 / files.length;
+
+      const worker = async () => {
+        for (;;) {
+          const file = queue.shift();
+          if (!file || abort.signal.aborted) return;
+
+          const item: BatchFileResult = {
+            uri: file,
+            reviewId: null,
+            result: null,
+            cached: false,
+            error: null,
+          };
+
+          try {
+            const { outcome, error } = await reviewFile(file, abort.signal);
+            item.reviewId = outcome?.reviewId ?? null;
+            item.result = outcome?.result ?? null;
+            item.cached = outcome?.cached ?? false;
+            item.error = error ?? null;
+          } catch (e) {
+            // 취소로 중단된 파일은 리포트에 넣지 않음
+            if (abort.signal.aborted) return;
+            item.error = e instanceof Error ? e.message : String(e);
+          }
+
+          results.push(item);
+          progress.report({
+            increment: step,
+            message: `${results.length}/${
+              files.length
+            } • ${vscode.workspace.asRelativePath(file)}`,
+          });
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, files.length) }, worker)
+      );
+    }
+  );
+
+  return { results, cancelled };
+}
+
+/**
+ * 리포트를 새 Markdown 문서로 열기 (결과가 하나도 없으면 취소 안내만)
+ */
+export async function showBatchReport(markdown: string, resultCount: number) {
+  if (resultCount === 0) {
+    vscode.window.showInformationMessage("DKMV: 리뷰가 취소되었습니다.");
+    return;
+  }
+
+  const report = await vscode.workspace.openTextDocument({
+    content: markdown,
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(report, { preview: false });
+}
+
+export function registerBatchReview(
+  context: vscode.ExtensionContext,
+  deps: BatchReviewDeps
+) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.reviewFolder", (uri?: vscode.Uri) =>
+      reviewFolder(deps, uri)
+    )
+  );
+}
@@ -0,0 +1,64 @@
+// src/extension/compareRunner.ts
+// ⚖️ 같은 코드를 여러 모델로 동시에 리뷰 (모델 비교 모드)
+import { runReview } from "./reviewRunner";
+import type { ReviewAuth, ReviewJob } from "./reviewRunner";
+import { ReviewCancelledError } from "./reviewPolling";
+import type { CompareEntry } from "../shared/reviewCompare";
+
+export type CompareJob = Omit<ReviewJob, "model">;
+
+const errorText = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * 모델마다 runReview 를 병렬 실행
+ *  - 한 모델이 끝날 때마다 onUpdate 로 전체 상태 전달 (웹뷰 진행 표시)
+ *  - 한 모델의 실패가 나머지를 막지 않음
+ */
+export async function runModelComparison(
+  job: CompareJob,
+  models: string[],
+  auth: ReviewAuth,
+  signal: AbortSignal,
+  onUpdate: (entries: CompareEntry[]) => void
+): Promise<CompareEntry[]> {
+  const entries: CompareEntry[] = models.map((model) => ({
+    model,
+    status: "running",
+    result: null,
+    reviewId: null,
+    cached: false,
+    latencyMs: null,
+    error: null,
+  }));
+  onUpdate(entries.map((e) => ({ ...e })));
+
+  await Promise.all(
+    models.map(async (model, idx) => {
+      const startedAt = Date.now();
+      try {
+        const outcome = await runReview({ ...job, model }, auth, { signal });
+        entries[idx] = {
+          ...entries[idx],
+          status: "done",
+          result: outcome.result,
+          reviewId: outcome.reviewId,
+          cached: outcome.cached,
+          latencyMs: Date.now() - startedAt,
+        };
+      } catch (error) {
+        const cancelled =
+          error instanceof ReviewCancelledError || signal.aborted;
+        entries[idx] = {
+          ...entries[idx],
+          status: cancelled ? "cancelled" : "error",
+          latencyMs: Date.now() - startedAt,
+          error: cancelled ? null : errorText(error),
+        };
+      }
+      if (!signal.aborted) onUpdate(entries.map((e) => ({ ...e })));
+    })
+  );
+
+  return entries;
+}
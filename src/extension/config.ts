@@ -0,0 +1,158 @@
+// src/extension/config.ts
+import * as vscode from "vscode";
+
+// 🔗 서버 엔드포인트 묶음
+// - authApiBase: 인증/유저 정보 (FastAPI)
+// - reviewApiBase: 리뷰/LLM 서버
+// - frontendUrl: 웹 대시보드 (토큰 발급 페이지)
+export type EndpointProfile = {
+  authApiBase: string;
+  reviewApiBase: string;
+  frontendUrl: string;
+};
+
+export type ResolvedEndpoints = EndpointProfile & {
+  profile: string;
+};
+
+export const CONFIG_SECTION = "dkmv";
+
+// 기본 제공 프로필 (settings의 dkmv.profiles 로 덮어쓰거나 추가 가능)
+const BUILTIN_PROFILES: Record<string, EndpointProfile> = {
+  prod: {
+    authApiBase: "http://18.205.229.159:8000",
+    reviewApiBase: "http://18.205.229.159:8002",
+    frontendUrl: "https://web-dkmv.vercel.app",
+  },
+  local: {
+    authApiBase: "http://localhost:8000",
+    reviewApiBase: "http://localhost:8002",
+    frontendUrl: "http://localhost:5173",
+  },
+};
+
+const DEFAULT_PROFILE = "prod";
+
+// 이름은 기본 제공이지만 주소는 팀마다 달라서 dkmv.profiles 로 지정해야 쓸 수 있는 프로필
+const USER_DEFINED_PROFILES = ["staging"];
+
+// 알 수 없는 / 설정 안 된 프로필 경고는 이름이 바뀔 때만 (getEndpoints 는 요청마다 불림)
+let warnedUnknownProfile: string | null = null;
+
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * 기본 프로필 + 사용자 정의 프로필(dkmv.profiles)을 합친 목록
+ * (사용자 정의 프로필은 일부 필드만 지정해도 되고, 빠진 필드는 prod 값을 사용)
+ */
+export function getProfiles(): Record<string, EndpointProfile> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const custom =
+    config.get<Record<string, Partial<EndpointProfile>>>("profiles") ?? {};
+
+  const merged: Record<string, EndpointProfile> = { ...BUILTIN_PROFILES };
+  for (const [name, partial] of Object.entries(custom)) {
+    if (!partial || typeof partial !== "object") continue;
+    merged[name] = {
+      ...(merged[name] ?? BUILTIN_PROFILES[DEFAULT_PROFILE]),
+      ...partial,
+    };
+  }
+  return merged;
+}
+
+export function getActiveProfileName(): string {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return config.get<string>("activeProfile") || DEFAULT_PROFILE;
+}
+
+/**
+ * 현재 활성 프로필 기준 엔드포인트 계산
+ *  - dkmv.authApiBase / reviewApiBase / frontendUrl 이 비어있지 않으면 프로필 값보다 우선
+ */
+export function getEndpoints(): ResolvedEndpoints {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const profiles = getProfiles();
+
+  let profile = getActiveProfileName();
+  if (!profiles[profile]) {
+    if (warnedUnknownProfile !== profile) {
+      warnedUnknownProfile = profile;
+      console.warn(
+        `[DKMV] Unknown profile "${profile}", falling back to "${DEFAULT_PROFILE}"`
+      );
+      vscode.window.showWarningMessage(
+        `DKMV: '${profile}' 프로필의 서버 주소가 설정되지 않아 '${DEFAULT_PROFILE}' 서버를 사용합니다. (dkmv.profiles.${profile})`
+      );
+    }
+    profile = DEFAULT_PROFILE;
+  }
+  const base = profiles[profile];
+
+  const override = (key: keyof EndpointProfile) => {
+    const v = config.get<string>(key);
+    return trimTrailingSlash(v && v.trim() ? v : base[key]);
+  };
+
+  return {
+    profile,
+    authApiBase: override("authApiBase"),
+    reviewApiBase: override("reviewApiBase"),
+    frontendUrl: override("frontendUrl"),
+  };
+}
+
+export function isEndpointConfigChange(
+  e: vscode.ConfigurationChangeEvent
+): boolean {
+  return [
+    "activeProfile",
+    "profiles",
+    "authApiBase",
+    "reviewApiBase",
+    "frontendUrl",
+  ].some((key) => e.affectsConfiguration(`${CONFIG_SECTION}.${key}`));
+}
+
+/**
+ * 🔁 프로필 전환 QuickPick (dkmv.switchProfile)
+ *  - 전환 결과는 글로벌 설정에 저장
+ */
+export async function pickProfile(): Promise<string | undefined> {
+  const profiles = getProfiles();
+  const active = getActiveProfileName();
+
+  const unconfigured = USER_DEFINED_PROFILES.filter((name) => !profiles[name]);
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...Object.entries(profiles).map(([name, p]) => ({
+        label: name,
+        description: name === active ? "(현재)" : undefined,
+        detail: `auth: ${p.authApiBase} · review: ${p.reviewApiBase}`,
+      })),
+      ...unconfigured.map((name) => ({
+        label: name,
+        description: "(설정 안 됨)",
+        detail: `dkmv.profiles.${name} 에 서버 주소를 지정해야 사용할 수 있습니다.`,
+      })),
+    ],
+    { placeHolder: "사용할 DKMV 서버 프로필을 선택하세요." }
+  );
+  if (!picked || picked.label === active) return undefined;
+
+  // 주소 없이 전환하면 토큰 / 코드가 엉뚱한 서버로 가므로 현재 프로필 유지
+  if (unconfigured.includes(picked.label)) {
+    vscode.window.showErrorMessage(
+      `DKMV: '${picked.label}' 프로필의 서버 주소가 설정되지 않았습니다. settings 의 dkmv.profiles.${picked.label} 에 authApiBase / reviewApiBase / frontendUrl 을 지정해 주세요.`
+    );
+    return undefined;
+  }
+
+  await vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .update("activeProfile", picked.label, vscode.ConfigurationTarget.Global);
+  return picked.label;
+}
@@ -0,0 +1,319 @@
+// src/extension/diagnostics.ts
+import * as vscode from "vscode";
+
+import type { ReviewIssue } from "../shared/reviewSchema";
+
+// 리뷰 대상 위치 (선택 영역 리뷰면 시작 위치만큼 라인/컬럼을 밀어줌)
+export type ReviewTarget = {
+  uri: vscode.Uri;
+  startLine: number; // 0-based
+  startCharacter: number; // 0-based
+  // 스니펫 줄(0-based) → 문서 줄(0-based). git 변경분처럼 떨어진 줄을 모아 보낸 경우
+  lineMap?: number[];
+};
+
+// 게시된 이슈 하나 (데코레이션 / 호버 / Quick Fix 에서 사용)
+export type ReviewMarker = {
+  range: vscode.Range;
+  message: string;
+  issue: ReviewIssue;
+  reviewId: number | null;
+  // 수정 제안이 있으면 교체할 범위 + 코드
+  fix?: { range: vscode.Range; newText: string };
+};
+
+let collection: vscode.DiagnosticCollection | undefined;
+const markersByUri = new Map<string, ReviewMarker[]>();
+const markersEmitter = new vscode.EventEmitter<vscode.Uri | undefined>();
+
+// 파일의 이슈 목록이 바뀌면 (undefined = 전체 삭제)
+export const onDidChangeReviewMarkers = markersEmitter.event;
+
+export function registerReviewDiagnostics(context: vscode.ExtensionContext) {
+  collection = vscode.languages.createDiagnosticCollection("dkmv");
+  context.subscriptions.push(
+    collection,
+    markersEmitter,
+    // ✏️ 편집하면 아래쪽 이슈는 따라 밀고, 고친 자리의 이슈는 지움
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length > 0) {
+        updateMarkersForEdit(e.document.uri, e.contentChanges);
+      }
+    })
+  );
+}
+
+export function toDiagnosticSeverity(
+  severityRaw: string
+): vscode.DiagnosticSeverity {
+  const severity = (severityRaw || "").toString().toUpperCase();
+  if (severity === "HIGH") return vscode.DiagnosticSeverity.Error;
+  if (severity === "MEDIUM") return vscode.DiagnosticSeverity.Warning;
+  if (severity === "LOW") return vscode.DiagnosticSeverity.Information;
+  return vscode.DiagnosticSeverity.Hint;
+}
+
+const positive = (n: number | undefined): n is number =>
+  typeof n === "number" && n > 0;
+
+/**
+ * 스니펫 기준 (1-based) 라인 → 문서 기준 (0-based) 라인
+ *  - lineMap 이 있으면 그걸로 매핑, 없으면 시작 위치만큼 offset
+ */
+function toDocumentLine(
+  lineNumber: number | undefined,
+  target: ReviewTarget,
+  document?: vscode.TextDocument
+): { line: number; relLine: number } {
+  const relLine = positive(lineNumber) ? lineNumber - 1 : 0;
+  let line = target.lineMap
+    ? target.lineMap[Math.min(relLine, target.lineMap.length - 1)] ?? 0
+    : target.startLine + relLine;
+  if (document) {
+    line = Math.min(line, Math.max(0, document.lineCount - 1));
+  }
+  return { line, relLine };
+}
+
+// 선택 영역 첫 줄이면 시작 컬럼만큼 밀어줌
+function toDocumentColumn(
+  columnNumber: number,
+  relLine: number,
+  target: ReviewTarget
+): number {
+  const colOffset =
+    relLine === 0 && !target.lineMap ? target.startCharacter : 0;
+  return colOffset + columnNumber - 1;
+}
+
+const lineLengthOf = (line: number, document?: vscode.TextDocument) =>
+  document ? document.lineAt(line).text.length : Number.MAX_SAFE_INTEGER;
+
+/**
+ * 이슈의 (1-based, 스니펫 기준) 라인/컬럼 → 문서 기준 Range
+ *  - 라인 정보가 없으면 리뷰 시작 라인에 표시
+ *  - 끝 라인/컬럼이 있으면 그 범위, 없으면 해당 라인 끝까지
+ *  - 컬럼 정보가 없으면 해당 라인 전체 (들여쓰기 제외)
+ */
+export function issueToRange(
+  issue: ReviewIssue,
+  target: ReviewTarget,
+  document?: vscode.TextDocument
+): vscode.Range {
+  const { line, relLine } = toDocumentLine(
+    issue.issue_line_number,
+    target,
+    document
+  );
+
+  let startCol: number;
+  if (positive(issue.issue_column_number)) {
+    startCol = toDocumentColumn(issue.issue_column_number, relLine, target);
+  } else if (document) {
+    const text = document.lineAt(line).text;
+    startCol = text.length - text.trimStart().length;
+  } else {
+    startCol = 0;
+  }
+
+  if (positive(issue.issue_end_line_number)) {
+    const end = toDocumentLine(issue.issue_end_line_number, target, document);
+    if (end.line >= line) {
+      const endCol = positive(issue.issue_end_column_number)
+        ? toDocumentColumn(issue.issue_end_column_number, end.relLine, target)
+        : lineLengthOf(end.line, document);
+      return new vscode.Range(line, startCol, end.line, endCol);
+    }
+  }
+
+  const lineLength = lineLengthOf(line, document);
+  return new vscode.Range(
+    line,
+    startCol,
+    line,
+    Math.max(startCol + 1, lineLength)
+  );
+}
+
+/**
+ * 수정 제안을 적용할 Range
+ *  - 컬럼이 없으면 줄 처음부터, 끝 컬럼이 없으면 (끝) 줄 끝까지 교체
+ */
+export function issueToFixRange(
+  issue: ReviewIssue,
+  target: ReviewTarget,
+  document: vscode.TextDocument
+): vscode.Range {
+  const start = toDocumentLine(issue.issue_line_number, target, document);
+  const startCol = positive(issue.issue_column_number)
+    ? toDocumentColumn(issue.issue_column_number, start.relLine, target)
+    : 0;
+
+  const end = positive(issue.issue_end_line_number)
+    ? toDocumentLine(issue.issue_end_line_number, target, document)
+    : start;
+  const endLine = Math.max(end.line, start.line);
+  const endCol =
+    positive(issue.issue_end_column_number) && endLine === end.line
+      ? toDocumentColumn(issue.issue_end_column_number, end.relLine, target)
+      : lineLengthOf(endLine, document);
+
+  return document.validateRange(
+    new vscode.Range(start.line, startCol, endLine, endCol)
+  );
+}
+
+/**
+ * 🩺 정규화된 이슈들을 Problems 패널에 게시 (파일 단위로 교체)
+ */
+export async function publishReviewDiagnostics(
+  target: ReviewTarget,
+  issues: ReviewIssue[],
+  reviewId: number | null
+): Promise<void> {
+  if (!collection) return;
+
+  let document: vscode.TextDocument | undefined;
+  try {
+    document = await vscode.workspace.openTextDocument(target.uri);
+  } catch {
+    document = undefined;
+  }
+
+  const markers = issues.map(
+    (issue): ReviewMarker => ({
+      range: issueToRange(issue, target, document),
+      message: issue.issue_details
+        ? `${issue.issue_summary}\n${issue.issue_details}`
+        : issue.issue_summary,
+      issue,
+      reviewId,
+      // 🩹 수정 제안이 있으면 Quick Fix 용으로 보관
+      fix:
+        document && issue.issue_suggested_fix != null
+          ? {
+              range: issueToFixRange(issue, target, document),
+              newText: issue.issue_suggested_fix,
+            }
+          : undefined,
+    })
+  );
+
+  setMarkers(target.uri, markers);
+}
+
+function toDiagnostic(marker: ReviewMarker): vscode.Diagnostic {
+  const diag = new vscode.Diagnostic(
+    marker.range,
+    marker.message,
+    toDiagnosticSeverity(marker.issue.issue_severity)
+  );
+  diag.source = marker.reviewId != null ? `DKMV #${marker.reviewId}` : "DKMV";
+  diag.code = marker.issue.issue_category;
+  return diag;
+}
+
+function setMarkers(uri: vscode.Uri, markers: ReviewMarker[]) {
+  collection?.set(uri, markers.map(toDiagnostic));
+  markersByUri.set(uri.toString(), markers);
+  markersEmitter.fire(uri);
+}
+
+/**
+ * 편집(change) 뒤의 위치 — pos 가 change 끝 이후일 때만 호출
+ */
+function shiftPosition(
+  pos: vscode.Position,
+  change: vscode.TextDocumentContentChangeEvent
+): vscode.Position {
+  const { start, end } = change.range;
+  const inserted = change.text.split(/\r?\n/);
+  const lineDelta = inserted.length - 1 - (end.line - start.line);
+  if (pos.line > end.line) return pos.translate(lineDelta);
+
+  // change 가 끝난 줄에 있으면 컬럼도 새 끝 위치 기준으로
+  const newEndChar =
+    (inserted.length === 1 ? start.character : 0) +
+    inserted[inserted.length - 1].length;
+  return new vscode.Position(
+    pos.line + lineDelta,
+    newEndChar + (pos.character - end.character)
+  );
+}
+
+const shiftRange = (
+  range: vscode.Range,
+  change: vscode.TextDocumentContentChangeEvent
+) =>
+  new vscode.Range(
+    shiftPosition(range.start, change),
+    shiftPosition(range.end, change)
+  );
+
+/**
+ * ✏️ 문서 편집에 맞춰 이슈 위치 갱신
+ *  - 이슈(또는 수정 범위) 앞에서 편집 → 그만큼 이동
+ *  - 이슈 뒤에서 편집 → 그대로
+ *  - 이슈 / 수정 범위를 건드린 편집 (제안된 수정 적용 포함) → 이슈 삭제
+ */
+function updateMarkersForEdit(
+  uri: vscode.Uri,
+  changes: readonly vscode.TextDocumentContentChangeEvent[]
+) {
+  const markers = markersByUri.get(uri.toString());
+  if (!markers || markers.length === 0) return;
+
+  let next = markers;
+  for (const change of changes) {
+    next = next.flatMap((marker) => {
+      const span = marker.fix
+        ? marker.range.union(marker.fix.range)
+        : marker.range;
+      if (change.range.start.isAfterOrEqual(span.end)) return [marker];
+      if (!change.range.end.isBeforeOrEqual(span.start)) return [];
+      return [
+        {
+          ...marker,
+          range: shiftRange(marker.range, change),
+          fix: marker.fix && {
+            ...marker.fix,
+            range: shiftRange(marker.fix.range, change),
+          },
+        },
+      ];
+    });
+  }
+
+  const moved = next.some((marker, i) => marker !== markers[i]);
+  if (next.length !== markers.length || moved) setMarkers(uri, next);
+}
+
+export function getReviewMarkers(uri: vscode.Uri): ReviewMarker[] {
+  return markersByUri.get(uri.toString()) ?? [];
+}
+
+/**
+ * 진단에 해당하는 게시된 이슈 (range + message 로 찾음)
+ */
+export function findReviewMarker(
+  uri: vscode.Uri,
+  diagnostic: vscode.Diagnostic
+): ReviewMarker | undefined {
+  return getReviewMarkers(uri).find(
+    (marker) =>
+      marker.message === diagnostic.message &&
+      marker.range.isEqual(diagnostic.range)
+  );
+}
+
+export function clearReviewDiagnostics(uri?: vscode.Uri) {
+  if (!collection) return;
+  if (uri) {
+    collection.delete(uri);
+    markersByUri.delete(uri.toString());
+  } else {
+    collection.clear();
+    markersByUri.clear();
+  }
+  markersEmitter.fire(uri);
+}
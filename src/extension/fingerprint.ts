@@ -0,0 +1,29 @@
+// src/extension/fingerprint.ts
+import { createHash } from "crypto";
+
+/**
+ * 공백 차이에 영향받지 않도록 코드 정규화
+ *  - 줄바꿈 통일 (CRLF/CR → LF)
+ *  - 줄 끝 공백 제거, 줄 안의 연속 공백/탭은 한 칸으로
+ *  - 앞뒤 빈 줄 제거
+ */
+export function normalizeCodeForFingerprint(code: string): string {
+  return code
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trimEnd())
+    .join("\n")
+    .replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * 🧬 code_fingerprint: 정규화된 코드 + 언어의 sha256
+ *  (같은 스니펫이면 들여쓰기/줄바꿈 방식이 달라도 같은 값)
+ */
+export function computeCodeFingerprint(code: string, language: string): string {
+  const hash = createHash("sha256")
+    .update(`${language.trim().toLowerCase()}\n`)
+    .update(normalizeCodeForFingerprint(code))
+    .digest("hex");
+  return `sha256:${hash}`;
+}
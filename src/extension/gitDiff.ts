@@ -0,0 +1,216 @@
+// src/extension/gitDiff.ts
+// 🌿 로컬 git 으로 변경분(diff) 읽기 + unified diff 파싱
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+export type DiffSource = "staged" | "unstaged" | "all";
+
+// 변경된 파일 하나에서 리뷰로 보낼 스니펫 + 라인 매핑
+export type ChangedFileSnippet = {
+  // 저장소 루트 기준 경로 ("b/" 쪽, 새 파일 경로)
+  relativePath: string;
+  code: string;
+  // 스니펫의 n번째 줄(0-based) → 파일의 줄(0-based)
+  lineMap: number[];
+};
+
+// 서로 떨어진 hunk 사이에 넣는 구분 줄
+const HUNK_SEPARATOR = "⋯";
+
+const DIFF_ARGS: Record<DiffSource, string[]> = {
+  staged: ["--cached"],
+  unstaged: [],
+  all: ["HEAD"],
+};
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["-c", "core.quotepath=off", ...args],
+      { cwd, maxBuffer: 32 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+export async function getRepoRoot(cwd: string): Promise<string> {
+  const out = await git(cwd, ["rev-parse", "--show-toplevel"]);
+  return path.normalize(out.trim());
+}
+
+/**
+ * git diff 실행 (삭제된 파일 제외)
+ *  - staged:   인덱스 vs HEAD (줄 번호는 인덱스 기준 — 작업 트리와 다를 수 있음)
+ *  - unstaged: 작업 트리 vs 인덱스
+ *  - all:      작업 트리 vs HEAD
+ */
+export function readGitDiff(
+  repoRoot: string,
+  source: DiffSource,
+  contextLines: number
+): Promise<string> {
+  return git(repoRoot, [
+    "diff",
+    "--no-color",
+    "--no-ext-diff",
+    "--diff-filter=d",
+    `--unified=${Math.max(0, contextLines)}`,
+    ...DIFF_ARGS[source],
+  ]);
+}
+
+/**
+ * 작업 트리에 스테이징 안 된 변경이 있는 파일 (저장소 루트 기준 경로)
+ *  - staged 리뷰의 줄 번호(인덱스 기준)가 열린 파일과 맞는지 확인용
+ */
+export async function readUnstagedPaths(
+  repoRoot: string
+): Promise<Set<string>> {
+  const out = await git(repoRoot, ["diff", "--name-only", "-z"]);
+  return new Set(out.split("\0").filter(Boolean));
+}
+
+/**
+ * git 이 따옴표로 감싼 경로 ("b/a\"b.ts", 8진수 바이트 이스케이프) → 원래 경로
+ */
+function unquoteGitPath(raw: string): string {
+  if (!raw.startsWith('"') || !raw.endsWith('"')) return raw;
+  const bytes: number[] = [];
+  const escapes: Record<string, number> = {
+    a: 7,
+    b: 8,
+    t: 9,
+    n: 10,
+    v: 11,
+    f: 12,
+    r: 13,
+  };
+  const body = raw.slice(1, -1);
+  for (let i = 0; i < body.length; i += 1) {
+    const ch = body[i];
+    if (ch !== "\\") {
+      bytes.push(...Buffer.from(ch, "utf8"));
+      continue;
+    }
+    const next = body[i + 1] ?? "";
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * unified diff → 파일별 스니펫
+ *  - hunk 의 새 파일 쪽 줄(문맥 ' ' + 추가 '+')만 모음
+ *  - hunk 사이에는 구분 줄을 넣고, 다음 hunk 시작 줄로 매핑
+ *  - hunk 길이는 @@ 헤더의 줄 수로 셈 (본문의 "+++ ..." 줄을 파일 헤더로 착각하지 않도록)
+ */
+export function parseUnifiedDiff(diff: string): ChangedFileSnippet[] {
+  const files: ChangedFileSnippet[] = [];
+  let current: ChangedFileSnippet | null = null;
+  let newLine = 0; // 다음에 올 새 파일 쪽 줄 (0-based)
+  // 현재 hunk 에서 아직 남은 옛 / 새 파일 쪽 줄 수 (둘 다 0 이면 hunk 밖)
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const line of diff.split("\n")) {
+    if (oldLeft > 0 || newLeft > 0) {
+      if (!current) continue;
+      if (line.startsWith("+") || line.startsWith(" ") || line === "") {
+        current.code += `${line.slice(1)}\n`;
+        current.lineMap.push(newLine);
+        newLine += 1;
+        newLeft -= 1;
+        if (!line.startsWith("+")) oldLeft -= 1;
+      } else if (line.startsWith("-")) {
+        // 삭제된 줄은 새 파일에 없으므로 스니펫에서 제외
+        oldLeft -= 1;
+      }
+      // "\ No newline at end of file" 은 줄 수에 포함되지 않음
+      continue;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      current = null;
+      continue;
+    }
+
+    if (line.startsWith("+++ ")) {
+      const target = unquoteGitPath(line.slice(4).trim());
+      if (target === "/dev/null") {
+        current = null;
+      } else {
+        current = {
+          relativePath: target.replace(/^b\//, ""),
+          code: "",
+          lineMap: [],
+        };
+        files.push(current);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && current) {
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      newLeft = hunk[3] === undefined ? 1 : Number(hunk[3]);
+      // 줄 수가 0 이면 시작 줄은 "그 앞 줄" 을 가리킴
+      newLine = Math.max(0, Number(hunk[2]) - (newLeft === 0 ? 0 : 1));
+      if (current.lineMap.length > 0 && newLeft > 0) {
+        current.code += `${HUNK_SEPARATOR}\n`;
+        current.lineMap.push(newLine);
+      }
+    }
+  }
+
+  return files.filter((f) => f.lineMap.length > 0);
+}
+
+/**
+ * 아직 git 이 추적하지 않는 새 파일 (.gitignore 제외) — 파일 전체를 스니펫으로
+ *  - 바이너리(NUL 포함) / 빈 파일은 건너뜀
+ */
+export async function readUntrackedFiles(
+  repoRoot: string
+): Promise<ChangedFileSnippet[]> {
+  const out = await git(repoRoot, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]);
+  const snippets: ChangedFileSnippet[] = [];
+  for (const relativePath of out.split("\0").filter(Boolean)) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(
+        path.join(repoRoot, relativePath),
+        "utf8"
+      );
+    } catch {
+      continue;
+    }
+    if (!text.trim() || text.includes("\0")) continue;
+    const lines = text.replace(/\n$/, "").split("\n");
+    snippets.push({
+      relativePath,
+      code: `${lines.join("\n")}\n`,
+      lineMap: lines.map((_, i) => i),
+    });
+  }
+  return snippets;
+}
@@ -0,0 +1,193 @@
+// src/extension/gitReview.ts
+// 🌿 커밋 안 된 변경분만 리뷰 (변경된 hunk + 주변 문맥만 전송)
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+  buildBatchReport,
+  getBatchReviewSettings,
+  runReviewsWithProgress,
+  showBatchReport,
+} from "./batchReview";
+import type { BatchReviewDeps } from "./batchReview";
+import { publishReviewDiagnostics } from "./diagnostics";
+import {
+  getRepoRoot,
+  parseUnifiedDiff,
+  readGitDiff,
+  readUnstagedPaths,
+  readUntrackedFiles,
+} from "./gitDiff";
+import type { ChangedFileSnippet, DiffSource } from "./gitDiff";
+import { pickReviewModel } from "./modelPicker";
+import { runReview } from "./reviewRunner";
+
+type DiffSourcePickItem = vscode.QuickPickItem & { source: DiffSource };
+
+const DIFF_SOURCE_ITEMS: DiffSourcePickItem[] = [
+  {
+    label: "스테이징된 변경",
+    description: "git diff --cached",
+    source: "staged",
+  },
+  {
+    label: "스테이징 안 된 변경",
+    description: "git diff + 추적 안 된 새 파일",
+    source: "unstaged",
+  },
+  {
+    label: "모든 변경 (HEAD 기준)",
+    description: "git diff HEAD + 추적 안 된 새 파일",
+    source: "all",
+  },
+];
+
+async function pickWorkspaceFolder(): Promise<vscode.Uri | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showInformationMessage("열려 있는 워크스페이스가 없습니다.");
+    return undefined;
+  }
+  if (folders.length === 1) return folders[0].uri;
+
+  const folder = await vscode.window.showWorkspaceFolderPick({
+    placeHolder: "변경분을 리뷰할 저장소 폴더를 선택하세요.",
+  });
+  return folder?.uri;
+}
+
+/**
+ * 🌿 커밋 안 된 변경 리뷰
+ *  - 파일마다 변경 hunk(+문맥)만 모아 runReview (추적 안 된 새 파일은 전체)
+ *  - 이슈 줄 번호는 lineMap 으로 원래 파일 줄에 매핑해서 Diagnostics 게시
+ *  - 스테이징된 변경은 인덱스 기준 줄이라, 스테이징 후 또 고친 파일에는 Diagnostics 를 게시하지 않음
+ */
+async function reviewGitChanges(deps: BatchReviewDeps) {
+  const auth = deps.getAuth();
+  if (!auth) {
+    vscode.window.showWarningMessage(
+      "DKMV: 변경분 리뷰를 사용하려면 먼저 토큰을 설정해야 합니다."
+    );
+    return;
+  }
+
+  const folder = await pickWorkspaceFolder();
+  if (!folder) return;
+
+  const picked = await vscode.window.showQuickPick(DIFF_SOURCE_ITEMS, {
+    title: "DKMV: 리뷰할 변경분 선택",
+  });
+  if (!picked) return;
+
+  const contextLines = vscode.workspace
+    .getConfiguration("dkmv")
+    .get<number>("git.contextLines", 3);
+
+  let repoRoot: string;
+  let snippets: ChangedFileSnippet[];
+  // 줄 번호가 열린 파일과 맞지 않는 파일 (staged 리뷰에서만)
+  let mismatchedPaths = new Set<string>();
+  try {
+    repoRoot = await getRepoRoot(folder.fsPath);
+    snippets = parseUnifiedDiff(
+      await readGitDiff(repoRoot, picked.source, contextLines)
+    );
+    if (picked.source === "staged") {
+      mismatchedPaths = await readUnstagedPaths(repoRoot);
+    } else {
+      snippets.push(...(await readUntrackedFiles(repoRoot)));
+    }
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      `DKMV: git 변경분을 읽지 못했습니다. ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+    return;
+  }
+
+  if (snippets.length === 0) {
+    vscode.window.showInformationMessage(
+      `DKMV: 리뷰할 변경분이 없습니다. (${picked.label})`
+    );
+    return;
+  }
+
+  const model = await pickReviewModel(deps.getPreferredModel());
+  if (!model) return;
+
+  let skippedDiagnostics = 0;
+  const byUri = new Map<string, ChangedFileSnippet>();
+  const files = snippets.map((snippet) => {
+    const uri = vscode.Uri.file(path.join(repoRoot, snippet.relativePath));
+    byUri.set(uri.toString(), snippet);
+    return uri;
+  });
+
+  const { results, cancelled } = await runReviewsWithProgress(
+    "DKMV: 변경분 리뷰",
+    files,
+    getBatchReviewSettings().concurrency,
+    async (file, signal) => {
+      const snippet = byUri.get(file.toString());
+      if (!snippet || !snippet.code.trim()) return { error: "빈 변경분" };
+
+      const document = await vscode.workspace.openTextDocument(file);
+      const outcome = await runReview(
+        {
+          code: snippet.code,
+          languageId: document.languageId,
+          model,
+          trigger: "manual",
+          filePath: file.fsPath,
+          lineMap: snippet.lineMap,
+        },
+        auth,
+        { signal }
+      );
+      if (mismatchedPaths.has(snippet.relativePath)) {
+        skippedDiagnostics += 1;
+        return { outcome };
+      }
+      await publishReviewDiagnostics(
+        {
+          uri: file,
+          startLine: 0,
+          startCharacter: 0,
+          lineMap: snippet.lineMap,
+        },
+        outcome.result.issues,
+        outcome.reviewId
+      );
+      return { outcome };
+    }
+  );
+
+  await showBatchReport(
+    buildBatchReport(
+      vscode.Uri.file(repoRoot),
+      model,
+      results,
+      cancelled,
+      `DKMV 변경분 리뷰 리포트 (${picked.label})`
+    ),
+    results.length
+  );
+
+  if (skippedDiagnostics > 0) {
+    vscode.window.showInformationMessage(
+      `DKMV: 스테이징 후 다시 수정된 파일 ${skippedDiagnostics}개는 줄 위치가 맞지 않아 에디터에 표시하지 않았습니다. (리포트에서 확인하세요)`
+    );
+  }
+}
+
+export function registerGitReview(
+  context: vscode.ExtensionContext,
+  deps: BatchReviewDeps
+) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("dkmv.reviewGitChanges", () =>
+      reviewGitChanges(deps)
+    )
+  );
+}
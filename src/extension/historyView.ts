@@ -0,0 +1,265 @@
+// src/extension/historyView.ts
+// 🕘 액티비티 바 "리뷰 기록" 트리뷰 (로컬 기록 + 서버의 내 리뷰 목록)
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { getReview, listReviews } from "./reviewApi";
+import {
+  clearReviewHistory,
+  getReviewHistory,
+  onDidChangeReviewHistory,
+} from "./reviewHistory";
+import type { ReviewAuth } from "./reviewRunner";
+import type { AnalyzerResult, ReviewSummary } from "../shared/reviewSchema";
+
+const SERVER_LIST_LIMIT = 50;
+
+// 트리 한 줄 (로컬 기록과 서버 항목을 합친 것)
+export type HistoryItem = {
+  reviewId: number | null;
+  filePath: string | null;
+  languageId: string | null;
+  model: string | null;
+  score: number | null;
+  issueCount: number | null;
+  createdAt: string | null;
+  // 로컬 기록에만 있음 (서버 항목은 열 때 GET /v1/reviews/{id})
+  code: string | null;
+  result: AnalyzerResult | null;
+  source: "local" | "server";
+};
+
+// 패널에서 다시 열 때 넘기는 값
+export type OpenedHistoryItem = {
+  reviewId: number | null;
+  filePath: string | null;
+  model: string | null;
+  languageId: string;
+  code: string;
+  result: AnalyzerResult;
+  createdAt: string | null;
+};
+
+export type HistoryViewDeps = {
+  getAuth: () => ReviewAuth | null;
+  openInPanel: (item: OpenedHistoryItem) => void;
+};
+
+function fromServer(summary: ReviewSummary): HistoryItem {
+  return {
+    reviewId: summary.review_id,
+    filePath: null,
+    languageId: summary.language,
+    model: summary.model,
+    score: summary.quality_score,
+    issueCount: summary.issue_count,
+    createdAt: summary.created_at,
+    code: null,
+    result: null,
+    source: "server",
+  };
+}
+
+/**
+ * 로컬 기록 + 서버 목록 합치기
+ *  - 같은 review_id 는 로컬 기록 우선 (파일 경로 / 코드가 있으므로)
+ *  - 최근 순 정렬
+ */
+export function mergeHistory(server: ReviewSummary[]): HistoryItem[] {
+  const items: HistoryItem[] = getReviewHistory().map((e) => ({
+    reviewId: e.review_id,
+    filePath: e.file_path,
+    languageId: e.language_id,
+    model: e.model,
+    score: e.analyzer_result.quality_score,
+    issueCount: e.analyzer_result.issues.length,
+    createdAt: e.created_at,
+    code: e.code,
+    result: e.analyzer_result,
+    source: "local",
+  }));
+
+  const localIds = new Set(items.map((i) => i.reviewId));
+  for (const summary of server) {
+    if (!localIds.has(summary.review_id)) items.push(fromServer(summary));
+  }
+
+  return items.sort((a, b) =>
+    (b.createdAt ?? "").localeCompare(a.createdAt ?? "")
+  );
+}
+
+function scoreIcon(score: number | null): vscode.ThemeIcon {
+  if (score == null) return new vscode.ThemeIcon("circle-outline");
+  if (score >= 80) {
+    return new vscode.ThemeIcon(
+      "pass",
+      new vscode.ThemeColor("testing.iconPassed")
+    );
+  }
+  if (score >= 50) {
+    return new vscode.ThemeIcon(
+      "warning",
+      new vscode.ThemeColor("list.warningForeground")
+    );
+  }
+  return new vscode.ThemeIcon(
+    "error",
+    new vscode.ThemeColor("list.errorForeground")
+  );
+}
+
+function toTreeItem(item: HistoryItem): vscode.TreeItem {
+  const fileLabel = item.filePath
+    ? path.basename(item.filePath)
+    : "(서버 기록)";
+  const idLabel = item.reviewId != null ? `#${item.reviewId} ` : "";
+
+  const treeItem = new vscode.TreeItem(`${idLabel}${fileLabel}`);
+  treeItem.description = [
+    item.score != null ? `${item.score}점` : null,
+    item.issueCount != null ? `이슈 ${item.issueCount}` : null,
+    item.model,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  treeItem.tooltip = new vscode.MarkdownString(
+    [
+      `**리뷰 ${item.reviewId != null ? `#${item.reviewId}` : "(id 없음)"}**`,
+      item.filePath ? `- 파일: \`${item.filePath}\`` : null,
+      `- 모델: ${item.model ?? "-"}`,
+      `- 점수: ${item.score ?? "-"}`,
+      `- 이슈: ${item.issueCount ?? "-"}개`,
+      `- 시각: ${
+        item.createdAt ? new Date(item.createdAt).toLocaleString() : "-"
+      }`,
+      `- 출처: ${item.source === "local" ? "이 PC" : "리뷰 서버"}`,
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+  treeItem.iconPath = scoreIcon(item.score);
+  treeItem.contextValue = "dkmvHistoryItem";
+  treeItem.command = {
+    command: "dkmv.history.open",
+    title: "리뷰 열기",
+    arguments: [item],
+  };
+  return treeItem;
+}
+
+/**
+ * 항목 열기: 로컬 기록은 바로, 서버 항목은 GET /v1/reviews/{id} 로 결과 조회
+ */
+async function openHistoryItem(deps: HistoryViewDeps, item: HistoryItem) {
+  if (item.result) {
+    deps.openInPanel({
+      reviewId: item.reviewId,
+      filePath: item.filePath,
+      model: item.model,
+      languageId: item.languageId ?? "plaintext",
+      code: item.code ?? "",
+      result: item.result,
+      createdAt: item.createdAt,
+    });
+    return;
+  }
+
+  const auth = deps.getAuth();
+  if (!auth || item.reviewId == null) {
+    vscode.window.showWarningMessage(
+      "DKMV: 서버 기록을 열려면 먼저 토큰을 설정해야 합니다."
+    );
+    return;
+  }
+
+  try {
+    const { detail } = await getReview(auth.token, item.reviewId);
+    if (detail.status !== "done" || !detail.result) {
+      vscode.window.showInformationMessage(
+        detail.status === "failed"
+          ? `DKMV: 실패한 리뷰입니다. ${detail.error_message ?? ""}`
+          : "DKMV: 아직 완료되지 않은 리뷰입니다."
+      );
+      return;
+    }
+    deps.openInPanel({
+      reviewId: item.reviewId,
+      filePath: null,
+      model: item.model,
+      languageId: item.languageId ?? "plaintext",
+      code: "",
+      result: detail.result,
+      createdAt: item.createdAt,
+    });
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      `DKMV: 리뷰를 불러오지 못했습니다. ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+}
+
+export function registerHistoryView(
+  context: vscode.ExtensionContext,
+  deps: HistoryViewDeps
+) {
+  const changeEmitter = new vscode.EventEmitter<void>();
+  let serverItems: ReviewSummary[] = [];
+
+  const view = vscode.window.createTreeView<HistoryItem>("dkmv.history", {
+    treeDataProvider: {
+      onDidChangeTreeData: changeEmitter.event,
+      getChildren: (element) => (element ? [] : mergeHistory(serverItems)),
+      getTreeItem: toTreeItem,
+    },
+  });
+
+  /**
+   * 서버의 내 리뷰 목록 다시 받기 (로그인 안 돼 있으면 로컬만)
+   */
+  const refresh = async () => {
+    const auth = deps.getAuth();
+    view.message = undefined;
+    if (!auth || auth.userId == null) {
+      serverItems = [];
+    } else {
+      try {
+        serverItems = await listReviews(
+          auth.token,
+          auth.userId,
+          SERVER_LIST_LIMIT
+        );
+      } catch (e) {
+        console.warn("[DKMV] review list failed", e);
+        view.message = `서버 기록을 불러오지 못했습니다: ${
+          e instanceof Error ? e.message : String(e)
+        }`;
+      }
+    }
+    changeEmitter.fire();
+  };
+
+  context.subscriptions.push(
+    changeEmitter,
+    view,
+    onDidChangeReviewHistory(() => changeEmitter.fire()),
+    // 처음 보일 때 서버 목록 로드
+    view.onDidChangeVisibility((e) => {
+      if (e.visible) void refresh();
+    }),
+    vscode.commands.registerCommand("dkmv.history.refresh", refresh),
+    vscode.commands.registerCommand("dkmv.history.open", (item: HistoryItem) =>
+      openHistoryItem(deps, item)
+    ),
+    vscode.commands.registerCommand("dkmv.history.clear", async () => {
+      await clearReviewHistory();
+      vscode.window.showInformationMessage(
+        "DKMV: 이 PC의 리뷰 기록을 지웠습니다."
+      );
+    })
+  );
+
+  return { refresh };
+}
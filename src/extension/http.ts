@@ -0,0 +1,208 @@
+// src/extension/http.ts
+// 🌐 공통 HTTP 레이어: 요청별 타임아웃(AbortController) + 재시도(지수 백오프 + jitter)
+//  - 재시도는 멱등 요청(GET 등)만, 5xx / 네트워크 오류일 때
+//  - 서버에 닿지 못한 실패는 NetworkError 로 구분 (오프라인 대기열 판단용)
+import * as vscode from "vscode";
+
+export type HttpOptions = {
+  // 요청 하나의 제한 시간 (0 = 제한 없음). 기본값: dkmv.http.timeoutSeconds
+  timeoutMs?: number;
+  // 멱등 요청의 최대 재시도 횟수. 기본값: dkmv.http.retries
+  retries?: number;
+};
+
+export type HttpTextResponse = {
+  status: number;
+  ok: boolean;
+  text: string;
+};
+
+// 서버에 닿지 못함 (연결 실패 / DNS / 타임아웃)
+export class NetworkError extends Error {
+  readonly timedOut: boolean;
+
+  constructor(message: string, timedOut = false) {
+    super(message);
+    this.name = "NetworkError";
+    this.timedOut = timedOut;
+  }
+}
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+export function getHttpSettings() {
+  const config = vscode.workspace.getConfiguration("dkmv");
+  return {
+    timeoutMs:
+      Math.max(0, config.get<number>("http.timeoutSeconds", 30)) * 1000,
+    retries: Math.max(0, Math.floor(config.get<number>("http.retries", 2))),
+  };
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+/**
+ * 재시도 대기 시간: 지수 백오프의 절반 + 나머지 절반은 무작위
+ * (여러 요청이 동시에 실패해도 한꺼번에 다시 몰리지 않도록)
+ */
+function retryDelay(attempt: number): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+function abortError(): Error {
+  const error = new Error("요청이 취소되었습니다.");
+  error.name = "AbortError";
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch 1회 + read 까지를 timeoutMs 안에
+ *  - 호출자가 취소하면 원래 에러(AbortError) 그대로
+ *  - 그 밖의 fetch 실패 / 타임아웃은 NetworkError
+ *  - streaming 이면 성공 후에도 호출자 signal 을 연결해 둠 (본문 읽기 취소용)
+ */
+async function attemptOnce<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  streaming: boolean,
+  read: (resp: Response) => Promise<T>
+): Promise<T> {
+  const outer = init.signal;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  const onAbort = () => controller.abort();
+  outer?.addEventListener("abort", onAbort, { once: true });
+  let linked = false;
+
+  try {
+    const resp = await fetch(url, { ...init, signal: controller.signal });
+    const result = await read(resp);
+    linked = streaming;
+    return result;
+  } catch (e) {
+    if (outer?.aborted) throw e;
+    if (timedOut) {
+      throw new NetworkError(
+        `서버 응답 시간이 초과되었습니다. (${Math.round(timeoutMs / 1000)}초)`,
+        true
+      );
+    }
+    throw new NetworkError(
+      `서버에 연결할 수 없습니다. (${e instanceof Error ? e.message : e})`
+    );
+  } finally {
+    clearTimeout(timer);
+    if (!linked) outer?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * 재시도 루프 — 멱등 요청이 5xx / NetworkError 로 실패하면 다시 시도
+ */
+async function withRetry<T extends { status: number }>(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions,
+  streaming: boolean,
+  read: (resp: Response) => Promise<T>,
+  discard: (result: T) => Promise<void>
+): Promise<T> {
+  const settings = getHttpSettings();
+  const method = (init.method ?? "GET").toUpperCase();
+  const retries = IDEMPOTENT_METHODS.includes(method)
+    ? options.retries ?? settings.retries
+    : 0;
+  const timeoutMs = options.timeoutMs ?? settings.timeoutMs;
+
+  for (let attempt = 0; ; attempt += 1) {
+    let result: T;
+    try {
+      result = await attemptOnce(url, init, timeoutMs, streaming, read);
+    } catch (e) {
+      if (!isNetworkError(e) || attempt >= retries) throw e;
+      await sleep(retryDelay(attempt), init.signal);
+      continue;
+    }
+
+    if (result.status >= 500 && attempt < retries) {
+      await discard(result);
+      await sleep(retryDelay(attempt), init.signal);
+      continue;
+    }
+    return result;
+  }
+}
+
+/**
+ * 응답 본문까지 받아서 돌려줌 (JSON API 용)
+ */
+export function httpRequestText(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions = {}
+): Promise<HttpTextResponse> {
+  return withRetry(
+    url,
+    init,
+    options,
+    false,
+    async (resp) => ({
+      status: resp.status,
+      ok: resp.ok,
+      text: await resp.text(),
+    }),
+    async () => undefined
+  );
+}
+
+/**
+ * 응답 헤더까지만 기다리고 Response 를 그대로 돌려줌 (스트림 용)
+ *  - timeoutMs 는 연결 + 헤더 수신까지에만 적용
+ */
+export function httpFetch(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions = {}
+): Promise<Response> {
+  return withRetry(
+    url,
+    init,
+    options,
+    true,
+    async (resp) => resp,
+    async (resp) => {
+      await resp.body?.cancel().catch(() => undefined);
+    }
+  );
+}
@@ -0,0 +1,151 @@
+// src/extension/issueDecorations.ts
+// 🎨 에디터 안에 리뷰 이슈 표시 (심각도별 거터 아이콘 + 라인 하이라이트 + 호버)
+import * as vscode from "vscode";
+
+import { getReviewMarkers, onDidChangeReviewMarkers } from "./diagnostics";
+import type { ReviewMarker } from "./diagnostics";
+import { getSeverityStyle } from "../shared/reviewStyles";
+
+const SEVERITIES = ["HIGH", "MEDIUM", "LOW", "OTHER"] as const;
+type SeverityKey = (typeof SEVERITIES)[number];
+
+// 파일별로 데코레이션을 끈 문서 (dkmv.toggleDecorations)
+const hiddenUris = new Set<string>();
+
+export function isDecorationsEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("dkmv")
+    .get<boolean>("decorations.enabled", true);
+}
+
+function severityKey(severity: string): SeverityKey {
+  const upper = (severity || "").toUpperCase();
+  return upper === "HIGH" || upper === "MEDIUM" || upper === "LOW"
+    ? upper
+    : "OTHER";
+}
+
+// 거터 아이콘: 심각도 색 원 (SVG data URI)
+function gutterIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="4.5" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+}
+
+function createDecorationTypes() {
+  const types = {} as Record<SeverityKey, vscode.TextEditorDecorationType>;
+  for (const key of SEVERITIES) {
+    const style = getSeverityStyle(key === "OTHER" ? "" : key);
+    types[key] = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: style.bg,
+      gutterIconPath: gutterIcon(style.border),
+      gutterIconSize: "contain",
+      overviewRulerColor: style.border,
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+    });
+  }
+  return types;
+}
+
+const isVisibleFor = (uri: vscode.Uri) =>
+  isDecorationsEnabled() && !hiddenUris.has(uri.toString());
+
+/**
+ * 호버 내용: 심각도 / 요약 / 상세 / 카테고리 / review_id
+ */
+function markerHover(marker: ReviewMarker): vscode.MarkdownString {
+  const { issue } = marker;
+  const md = new vscode.MarkdownString();
+  md.appendMarkdown(
+    `**DKMV · ${getSeverityStyle(issue.issue_severity).label}** — `
+  );
+  md.appendText(issue.issue_summary);
+  if (issue.issue_details) {
+    md.appendMarkdown("\n\n");
+    md.appendText(issue.issue_details);
+  }
+  md.appendMarkdown(
+    `\n\n카테고리: \`${issue.issue_category}\` · review_id: ${
+      marker.reviewId != null ? `#${marker.reviewId}` : "-"
+    }`
+  );
+  return md;
+}
+
+export function registerIssueDecorations(context: vscode.ExtensionContext) {
+  const types = createDecorationTypes();
+
+  const render = (editor: vscode.TextEditor) => {
+    const uri = editor.document.uri;
+    const markers = isVisibleFor(uri) ? getReviewMarkers(uri) : [];
+
+    const bySeverity = new Map<SeverityKey, vscode.Range[]>(
+      SEVERITIES.map((key) => [key, []])
+    );
+    for (const marker of markers) {
+      bySeverity
+        .get(severityKey(marker.issue.issue_severity))!
+        .push(marker.range);
+    }
+    for (const key of SEVERITIES) {
+      editor.setDecorations(types[key], bySeverity.get(key)!);
+    }
+  };
+
+  const renderAll = (uri?: vscode.Uri) => {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (!uri || editor.document.uri.toString() === uri.toString()) {
+        render(editor);
+      }
+    }
+  };
+
+  context.subscriptions.push(
+    ...Object.values(types),
+    onDidChangeReviewMarkers((uri) => renderAll(uri)),
+    vscode.window.onDidChangeVisibleTextEditors((editors) =>
+      editors.forEach(render)
+    ),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("dkmv.decorations.enabled")) renderAll();
+    }),
+    vscode.languages.registerHoverProvider(
+      { scheme: "file" },
+      {
+        provideHover(document, position) {
+          if (!isVisibleFor(document.uri)) return undefined;
+
+          const hits = getReviewMarkers(document.uri).filter(
+            (m) =>
+              position.line >= m.range.start.line &&
+              position.line <= m.range.end.line
+          );
+          if (hits.length === 0) return undefined;
+          return new vscode.Hover(hits.map(markerHover));
+        },
+      }
+    ),
+    vscode.commands.registerCommand("dkmv.toggleDecorations", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showInformationMessage("열려 있는 파일이 없습니다.");
+        return;
+      }
+
+      const key = editor.document.uri.toString();
+      if (hiddenUris.has(key)) {
+        hiddenUris.delete(key);
+      } else {
+        hiddenUris.add(key);
+      }
+      renderAll(editor.document.uri);
+
+      vscode.window.setStatusBarMessage(
+        `DKMV: 이 파일의 리뷰 표시를 ${
+          hiddenUris.has(key) ? "껐습니다" : "켰습니다"
+        }.`,
+        3000
+      );
+    })
+  );
+}
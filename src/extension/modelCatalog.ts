@@ -0,0 +1,170 @@
+// src/extension/modelCatalog.ts
+// 🤖 리뷰 모델 카탈로그: 서버 /v1/models → globalState 캐시(TTL) → 고정 목록 fallback
+import * as vscode from "vscode";
+
+import { getEndpoints } from "./config";
+import { listModels } from "./reviewApi";
+import {
+  FALLBACK_MODEL_OPTIONS,
+  filterModelCatalog,
+  toModelOption,
+} from "../shared/modelOptions";
+import type { ModelCatalog, ModelOption } from "../shared/modelOptions";
+
+// (v2: variant flags / 컨텍스트 길이 등 메타데이터 포함 — 예전 형식은 버림)
+const CATALOG_KEY = "dkmv.modelCatalog.v2";
+const LEGACY_CATALOG_KEYS = ["dkmv.modelCatalog"];
+const FETCH_TIMEOUT_MS = 10_000;
+
+// 서버별로 저장 (프로필을 바꾸면 다른 목록)
+type StoredCatalog = {
+  review_api_base: string;
+  fetched_at: string;
+  models: ModelOption[];
+};
+
+let memento: vscode.Memento | undefined;
+let getToken: () => string | null = () => null;
+// 이번 세션에 서버에서 받아온 적이 있으면 "server", 아니면 저장된 캐시
+let fetchedThisSession = false;
+let inflight: Promise<void> | null = null;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+// 카탈로그(또는 허용 목록 설정)가 바뀌면
+export const onDidChangeModelCatalog = changeEmitter.event;
+
+export function getModelCatalogSettings() {
+  const config = vscode.workspace.getConfiguration("dkmv");
+  return {
+    allowed: config.get<string[]>("models.allowed", []),
+    cacheTtlMinutes: Math.max(
+      0,
+      config.get<number>("models.cacheTtlMinutes", 360)
+    ),
+  };
+}
+
+function readStored(): StoredCatalog | undefined {
+  const stored = memento?.get<StoredCatalog>(CATALOG_KEY);
+  if (!stored || stored.review_api_base !== getEndpoints().reviewApiBase) {
+    return undefined;
+  }
+  return stored;
+}
+
+function isFresh(stored: StoredCatalog): boolean {
+  const ttlMs = getModelCatalogSettings().cacheTtlMinutes * 60_000;
+  return Date.now() - new Date(stored.fetched_at).getTime() < ttlMs;
+}
+
+/**
+ * 지금 쓸 카탈로그 (허용 목록 적용)
+ *  - 서버/캐시 목록이 없으면 고정 목록
+ */
+export function getModelCatalog(): ModelCatalog {
+  const { allowed } = getModelCatalogSettings();
+  const stored = readStored();
+
+  if (stored && stored.models.length > 0) {
+    return {
+      models: filterModelCatalog(stored.models, allowed),
+      source: fetchedThisSession ? "server" : "cache",
+      fetched_at: stored.fetched_at,
+    };
+  }
+  return {
+    models: filterModelCatalog(FALLBACK_MODEL_OPTIONS, allowed),
+    source: "fallback",
+    fetched_at: null,
+  };
+}
+
+/**
+ * 관리자 허용 목록(dkmv.models.allowed)에 맞는 모델인지
+ */
+export function isModelAllowed(modelId: string): boolean {
+  const { allowed } = getModelCatalogSettings();
+  return filterModelCatalog([toModelOption(modelId)], allowed).length > 0;
+}
+
+async function fetchAndStore(): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const models = await listModels(getToken(), controller.signal);
+    if (models.length === 0) {
+      console.warn("[DKMV] /v1/models returned no models, keeping catalog");
+      return;
+    }
+    await memento?.update(CATALOG_KEY, {
+      review_api_base: getEndpoints().reviewApiBase,
+      fetched_at: new Date().toISOString(),
+      models,
+    } satisfies StoredCatalog);
+    fetchedThisSession = true;
+    changeEmitter.fire();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 🔁 서버에서 모델 목록 갱신
+ *  - force 가 아니면 TTL 안의 캐시가 있을 때 건너뜀
+ *  - 실패하면 기존 캐시(없으면 고정 목록)를 그대로 사용하고 에러를 던짐
+ */
+export async function refreshModelCatalog(force = false): Promise<void> {
+  const stored = readStored();
+  if (!force && stored && isFresh(stored)) return;
+
+  if (!inflight) {
+    inflight = fetchAndStore().finally(() => {
+      inflight = null;
+    });
+  }
+  return inflight;
+}
+
+export function initModelCatalog(
+  context: vscode.ExtensionContext,
+  tokenGetter: () => string | null
+) {
+  memento = context.globalState;
+  getToken = tokenGetter;
+  for (const key of LEGACY_CATALOG_KEYS) {
+    if (memento.get(key) !== undefined) {
+      void memento.update(key, undefined);
+    }
+  }
+
+  context.subscriptions.push(
+    changeEmitter,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("dkmv.models.allowed")) {
+        changeEmitter.fire();
+      }
+    }),
+    vscode.commands.registerCommand("dkmv.refreshModels", async () => {
+      try {
+        await refreshModelCatalog(true);
+        vscode.window.showInformationMessage(
+          `DKMV: 모델 목록을 갱신했습니다. (${
+            getModelCatalog().models.length
+          }개)`
+        );
+      } catch (error) {
+        vscode.window.showWarningMessage(
+          `DKMV: 모델 목록을 불러오지 못해 ${
+            readStored() ? "저장된" : "기본"
+          } 목록을 사용합니다. ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  void refreshModelCatalog().catch((error) =>
+    console.warn("[DKMV] model catalog refresh failed:", error)
+  );
+}
@@ -0,0 +1,85 @@
+// src/extension/modelPicker.ts
+import * as vscode from "vscode";
+
+import { getModelCatalog } from "./modelCatalog";
+import { getModelPreferences, recordRecentModel } from "./modelPreferences";
+import { getModelBadges } from "../shared/modelOptions";
+import type { ModelOption } from "../shared/modelOptions";
+
+type ModelPickItem = vscode.QuickPickItem & { modelId: string };
+type PickEntry = ModelPickItem | vscode.QuickPickItem;
+
+const separator = (label: string): vscode.QuickPickItem => ({
+  label,
+  kind: vscode.QuickPickItemKind.Separator,
+});
+
+// 이름 옆에 배지, ID 는 description 으로 (검색 가능)
+function toPickItem(m: ModelOption, favorite: boolean): ModelPickItem {
+  const badges = getModelBadges(m);
+  return {
+    label: favorite ? `$(star-full) ${m.label}` : m.label,
+    description: badges.length > 0 ? `${m.id} · ${badges.join(" ")}` : m.id,
+    detail: m.description ?? undefined,
+    modelId: m.id,
+  };
+}
+
+/**
+ * 🤖 웹뷰 없이 리뷰할 때 (폴더 일괄 리뷰 등) 사용할 모델 선택
+ *  - 즐겨찾기 → 최근 사용 (preferred 가 있으면 맨 앞) → provider 별 전체 목록
+ *  - 고른 모델은 최근 사용에 기록
+ */
+export async function pickReviewModel(
+  preferred: string | null,
+  title = "DKMV: 리뷰에 사용할 모델 선택"
+): Promise<string | undefined> {
+  const catalog = getModelCatalog();
+  const prefs = getModelPreferences();
+  const byId = new Map(catalog.models.map((m) => [m.id, m]));
+  const favorites = new Set(prefs.favorites);
+
+  // 허용 목록(카탈로그) 밖의 모델은 즐겨찾기 / 최근 사용이어도 보여주지 않음
+  const pinnedFavorites = prefs.favorites.filter((id) => byId.has(id));
+  const pinnedRecent = Array.from(
+    new Set([...(preferred ? [preferred] : []), ...prefs.recent])
+  ).filter((id) => byId.has(id) && !favorites.has(id));
+  const pinned = new Set([...pinnedFavorites, ...pinnedRecent]);
+
+  const items: PickEntry[] = [];
+  if (pinnedFavorites.length > 0) {
+    items.push(separator("즐겨찾기"));
+    pinnedFavorites.forEach((id) =>
+      items.push(toPickItem(byId.get(id)!, true))
+    );
+  }
+  if (pinnedRecent.length > 0) {
+    items.push(separator("최근 사용"));
+    pinnedRecent.forEach((id) => items.push(toPickItem(byId.get(id)!, false)));
+  }
+
+  let provider: string | null = null;
+  for (const m of [...catalog.models].sort((a, b) =>
+    a.provider.localeCompare(b.provider)
+  )) {
+    if (pinned.has(m.id)) continue;
+    if (m.provider !== provider) {
+      provider = m.provider;
+      items.push(separator(provider));
+    }
+    items.push(toPickItem(m, false));
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title,
+    placeHolder:
+      catalog.source === "fallback"
+        ? "모델 ID 검색 (서버 목록을 불러오지 못해 기본 목록 표시)"
+        : "모델 ID 검색",
+    matchOnDescription: true,
+  });
+  if (!picked || !("modelId" in picked)) return undefined;
+
+  await recordRecentModel(picked.modelId);
+  return picked.modelId;
+}
@@ -0,0 +1,84 @@
+// src/extension/modelPreferences.ts
+// ⭐ 모델 선호: 기본 모델(dkmv.defaultModel) + 즐겨찾기 + 최근 사용 5개
+// 즐겨찾기 / 최근 사용은 globalState 에 저장해서 재시작 후에도 유지
+import * as vscode from "vscode";
+
+import { isModelAllowed } from "./modelCatalog";
+import { pickPreferredModel } from "../shared/modelOptions";
+import type { ModelPreferences } from "../shared/modelOptions";
+
+const FAVORITES_KEY = "dkmv.models.favorites";
+const RECENT_KEY = "dkmv.models.recent";
+const MAX_RECENT = 5;
+
+let memento: vscode.Memento | undefined;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+// 기본 모델 설정 / 즐겨찾기 / 최근 사용이 바뀌면
+export const onDidChangeModelPreferences = changeEmitter.event;
+
+export function initModelPreferences(context: vscode.ExtensionContext) {
+  memento = context.globalState;
+  context.subscriptions.push(
+    changeEmitter,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("dkmv.defaultModel") ||
+        e.affectsConfiguration("dkmv.models.allowed")
+      ) {
+        changeEmitter.fire();
+      }
+    })
+  );
+}
+
+/**
+ * 현재 선호 (허용 목록 밖의 모델은 빠짐)
+ */
+export function getModelPreferences(): ModelPreferences {
+  const configured = vscode.workspace
+    .getConfiguration("dkmv")
+    .get<string>("defaultModel", "")
+    .trim();
+
+  return {
+    defaultModel: configured && isModelAllowed(configured) ? configured : null,
+    favorites: (memento?.get<string[]>(FAVORITES_KEY) ?? []).filter(
+      isModelAllowed
+    ),
+    recent: (memento?.get<string[]>(RECENT_KEY) ?? []).filter(isModelAllowed),
+  };
+}
+
+/**
+ * 모델을 따로 고르지 않았을 때 쓸 모델: 기본 모델 → 최근 사용
+ */
+export function getPreferredModel(): string | null {
+  return pickPreferredModel(getModelPreferences());
+}
+
+export async function toggleFavoriteModel(modelId: string): Promise<void> {
+  if (!memento) return;
+  const favorites = memento.get<string[]>(FAVORITES_KEY) ?? [];
+  await memento.update(
+    FAVORITES_KEY,
+    favorites.includes(modelId)
+      ? favorites.filter((id) => id !== modelId)
+      : [...favorites, modelId]
+  );
+  changeEmitter.fire();
+}
+
+/**
+ * 리뷰에 쓴 모델을 최근 사용 맨 앞으로 (최대 5개)
+ */
+export async function recordRecentModel(modelId: string): Promise<void> {
+  if (!memento) return;
+  const recent = memento.get<string[]>(RECENT_KEY) ?? [];
+  if (recent[0] === modelId) return;
+  await memento.update(
+    RECENT_KEY,
+    [modelId, ...recent.filter((id) => id !== modelId)].slice(0, MAX_RECENT)
+  );
+  changeEmitter.fire();
+}
@@ -0,0 +1,153 @@
+// src/extension/offlineQueue.ts
+// 📮 오프라인 대기열: 서버에 닿지 못한 리뷰 요청을 globalState 에 저장해 두었다가
+// 연결이 돌아오면 순서대로 다시 보냄 (재시작 후에도 유지)
+import * as vscode from "vscode";
+
+import { ReviewNotSentError, runReview } from "./reviewRunner";
+import type { ReviewAuth, ReviewJob, ReviewOutcome } from "./reviewRunner";
+
+const QUEUE_KEY = "dkmv.offlineQueue";
+const MAX_QUEUED = 20;
+// 연결 확인(= 맨 앞 요청 재전송) 간격
+const RETRY_INTERVAL_MS = 30_000;
+
+export type QueuedReview = {
+  id: string;
+  job: ReviewJob;
+  // 선택 영역 리뷰면 Diagnostics offset
+  selection_start: { line: number; character: number } | null;
+  queued_at: string;
+};
+
+export type OfflineQueueDeps = {
+  getAuth: () => ReviewAuth | null;
+  // 대기열의 리뷰가 끝났을 때 (Diagnostics / 알림)
+  onCompleted: (item: QueuedReview, outcome: ReviewOutcome) => Promise<void>;
+};
+
+let memento: vscode.Memento | undefined;
+let deps: OfflineQueueDeps | undefined;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let draining: Promise<void> | null = null;
+const changeEmitter = new vscode.EventEmitter<number>();
+
+// 대기 중인 리뷰 수가 바뀌면 (웹뷰 / 상태바 표시)
+export const onDidChangeOfflineQueue = changeEmitter.event;
+
+function readQueue(): QueuedReview[] {
+  return memento?.get<QueuedReview[]>(QUEUE_KEY) ?? [];
+}
+
+async function writeQueue(queue: QueuedReview[]): Promise<void> {
+  await memento?.update(QUEUE_KEY, queue);
+  changeEmitter.fire(queue.length);
+}
+
+export function getPendingReviewCount(): number {
+  return readQueue().length;
+}
+
+// 같은 파일(없으면 같은 코드) + 같은 모델이면 최신 요청 하나만 남김
+function isSameTarget(a: ReviewJob, b: ReviewJob): boolean {
+  if (a.model !== b.model) return false;
+  return a.filePath || b.filePath
+    ? a.filePath === b.filePath
+    : a.code === b.code;
+}
+
+/**
+ * 대기열에 추가하고 남은 건수를 돌려줌 (최대 20건, 넘치면 오래된 것부터 버림)
+ */
+export async function enqueueReview(
+  job: ReviewJob,
+  selectionStart: QueuedReview["selection_start"]
+): Promise<number> {
+  const queue = readQueue().filter((item) => !isSameTarget(item.job, job));
+  queue.push({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    job,
+    selection_start: selectionStart,
+    queued_at: new Date().toISOString(),
+  });
+  const trimmed = queue.slice(-MAX_QUEUED);
+  await writeQueue(trimmed);
+  scheduleRetry();
+  return trimmed.length;
+}
+
+function scheduleRetry() {
+  if (retryTimer || readQueue().length === 0) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = undefined;
+    void drainOfflineQueue();
+  }, RETRY_INTERVAL_MS);
+}
+
+/**
+ * 🔁 맨 앞부터 하나씩 다시 보냄
+ *  - 아직 오프라인이면 멈추고 30초 뒤 다시 시도
+ *  - 서버가 거절한 요청(모델 제한 등)은 알리고 버림
+ *  - 로그인 전이면 아무것도 하지 않음 (토큰 설정 후 다시 호출됨)
+ */
+export function drainOfflineQueue(): Promise<void> {
+  if (!draining) {
+    draining = drain().finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+}
+
+async function drain(): Promise<void> {
+  for (;;) {
+    const [item] = readQueue();
+    const auth = deps?.getAuth();
+    if (!item || !auth) return;
+
+    let outcome: ReviewOutcome | null = null;
+    try {
+      outcome = await runReview(item.job, auth, {
+        signal: new AbortController().signal,
+      });
+    } catch (e) {
+      if (e instanceof ReviewNotSentError) {
+        scheduleRetry();
+        return;
+      }
+      console.warn("[DKMV] queued review failed", e);
+      vscode.window.showWarningMessage(
+        `DKMV: 대기 중이던 리뷰를 처리하지 못했습니다. ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      );
+    }
+
+    await writeQueue(readQueue().filter((q) => q.id !== item.id));
+    if (!outcome) continue;
+    // 결과 처리(기록 / 알림)가 실패해도 나머지 대기열은 계속 보냄
+    try {
+      await deps?.onCompleted(item, outcome);
+    } catch (e) {
+      console.warn("[DKMV] queued review completion handler failed", e);
+    }
+  }
+}
+
+export function initOfflineQueue(
+  context: vscode.ExtensionContext,
+  queueDeps: OfflineQueueDeps
+) {
+  memento = context.globalState;
+  deps = queueDeps;
+
+  context.subscriptions.push(
+    changeEmitter,
+    // 창으로 돌아오면 바로 한 번 확인 (노트북 재연결 등)
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused && readQueue().length > 0) {
+        void drainOfflineQueue();
+      }
+    }),
+    { dispose: () => clearTimeout(retryTimer) }
+  );
+}
@@ -0,0 +1,52 @@
+// src/extension/quickFix.ts
+// 🩹 리뷰 이슈의 수정 제안 → Quick Fix (적용 전 diff 미리보기)
+import * as vscode from "vscode";
+
+import { findReviewMarker } from "./diagnostics";
+
+const isReviewDiagnostic = (diag: vscode.Diagnostic) =>
+  typeof diag.source === "string" && diag.source.startsWith("DKMV");
+
+/**
+ * 진단 하나에 대한 Quick Fix
+ *  - needsConfirmation 으로 Refactor Preview(diff) 를 먼저 띄우고 확인 후 적용
+ */
+function createFixAction(
+  document: vscode.TextDocument,
+  diagnostic: vscode.Diagnostic
+): vscode.CodeAction | undefined {
+  const marker = findReviewMarker(document.uri, diagnostic);
+  const fix = marker?.fix;
+  if (!marker || !fix) return undefined;
+
+  const title = `DKMV: 제안된 수정 적용 — ${marker.issue.issue_summary}`;
+  const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+  action.diagnostics = [diagnostic];
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, fix.range, fix.newText, {
+    label: title,
+    description: document.uri.fsPath,
+    needsConfirmation: true,
+  });
+  action.edit = edit;
+
+  return action;
+}
+
+export function registerReviewQuickFixes(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      {
+        provideCodeActions(document, _range, codeActionContext) {
+          return codeActionContext.diagnostics
+            .filter(isReviewDiagnostic)
+            .map((diag) => createFixAction(document, diag))
+            .filter((action): action is vscode.CodeAction => !!action);
+        },
+      },
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    )
+  );
+}
@@ -0,0 +1,354 @@
+// src/extension/reportExport.ts
+// 📝 리뷰 결과 → Markdown / 단독 실행 HTML 리포트 (PR, 설계 문서 첨부용) / SARIF
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { getReviewHistory } from "./reviewHistory";
+import { buildSarifLog, toFileLocation } from "./sarif";
+import { CATEGORY_IDS } from "../shared/reviewSchema";
+import type { AnalyzerResult, CategoryId } from "../shared/reviewSchema";
+import { getScoreLabel, getSeverityStyle } from "../shared/reviewStyles";
+import type { ReportFormat } from "../shared/protocol";
+
+export type ReportMeta = {
+  filePath: string | null;
+  languageId: string | null;
+  model: string | null;
+  reviewId: number | null;
+  reviewedAt: string | null;
+  // 선택 영역 리뷰면 시작 위치 (0-based). 이슈 위치를 파일 기준으로 맞출 때 사용
+  selectionStart?: { line: number; character: number } | null;
+  // git 변경분 리뷰면 스니펫 줄(0-based) → 파일 줄(0-based)
+  lineMap?: number[] | null;
+};
+
+const REPORT_FILES: Record<
+  ReportFormat,
+  { ext: string; filters: Record<string, string[]> }
+> = {
+  markdown: { ext: "md", filters: { Markdown: ["md"] } },
+  html: { ext: "html", filters: { HTML: ["html", "htm"] } },
+  sarif: { ext: "sarif", filters: { SARIF: ["sarif", "json"] } },
+};
+
+const CATEGORY_LABELS: Record<CategoryId, string> = {
+  bug: "Bug",
+  maintainability: "Maintainability",
+  style: "Style",
+  security: "Security",
+};
+
+const reportTitle = (meta: ReportMeta) =>
+  `DKMV 코드 리뷰${meta.filePath ? ` — ${path.basename(meta.filePath)}` : ""}`;
+
+const issueLocation = (
+  issue: AnalyzerResult["issues"][number],
+  meta: ReportMeta
+) => {
+  if (issue.issue_line_number == null || issue.issue_line_number < 1) {
+    return "-";
+  }
+  const { line, column } = toFileLocation(
+    meta,
+    issue.issue_line_number,
+    issue.issue_column_number ?? undefined
+  );
+  return `${line}${column != null ? `:${column}` : ""}`;
+};
+
+// 표 셀 안에서 | 와 줄바꿈이 표를 깨지 않도록
+const mdCell = (text: string) =>
+  text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+export function buildMarkdownReport(
+  meta: ReportMeta,
+  result: AnalyzerResult
+): string {
+  const lines: string[] = [
+    `# ${reportTitle(meta)}`,
+    "",
+    `- 파일: ${meta.filePath ? `\`${meta.filePath}\`` : "-"}`,
+    `- 언어: ${meta.languageId ?? "-"}`,
+    `- 모델: ${meta.model ? `\`${meta.model}\`` : "-"}`,
+    `- review_id: ${meta.reviewId ?? "-"}`,
+    `- 리뷰 시각: ${
+      meta.reviewedAt ? new Date(meta.reviewedAt).toLocaleString() : "-"
+    }`,
+    "",
+    "## 점수",
+    "",
+    "| 항목 | 점수 |",
+    "| --- | ---: |",
+    `| **총점** (${getScoreLabel(result.quality_score).label}) | **${
+      result.quality_score
+    }** |`,
+    ...CATEGORY_IDS.map(
+      (key) => `| ${CATEGORY_LABELS[key]} | ${result.scores_by_category[key]} |`
+    ),
+    "",
+    "## 리뷰 요약",
+    "",
+    result.review_summary || "_요약 없음_",
+  ];
+
+  const comments = CATEGORY_IDS.filter((key) => result.review_details[key]);
+  if (comments.length > 0) {
+    lines.push("", "## 카테고리별 코멘트", "");
+    for (const key of comments) {
+      lines.push(
+        `### ${CATEGORY_LABELS[key]}`,
+        "",
+        result.review_details[key] ?? "",
+        ""
+      );
+    }
+  }
+
+  lines.push("", "## 이슈", "");
+  if (result.issues.length === 0) {
+    lines.push("_발견된 이슈가 없습니다._");
+  } else {
+    lines.push(
+      "| # | 심각도 | 카테고리 | 위치 | 요약 | 상세 |",
+      "| ---: | --- | --- | --- | --- | --- |"
+    );
+    result.issues.forEach((issue, idx) => {
+      lines.push(
+        `| ${idx + 1} | ${
+          getSeverityStyle(issue.issue_severity).label
+        } | ${mdCell(issue.issue_category)} | ${issueLocation(
+          issue,
+          meta
+        )} | ${mdCell(issue.issue_summary)} | ${mdCell(
+          issue.issue_details ?? ""
+        )} |`
+      );
+    });
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * 외부 리소스 없이 열리는 HTML (스타일 인라인)
+ */
+export function buildHtmlReport(
+  meta: ReportMeta,
+  result: AnalyzerResult
+): string {
+  const overall = getScoreLabel(result.quality_score);
+
+  const metaRows = [
+    ["파일", meta.filePath ?? "-"],
+    ["언어", meta.languageId ?? "-"],
+    ["모델", meta.model ?? "-"],
+    ["review_id", meta.reviewId != null ? String(meta.reviewId) : "-"],
+    [
+      "리뷰 시각",
+      meta.reviewedAt ? new Date(meta.reviewedAt).toLocaleString() : "-",
+    ],
+  ]
+    .map(
+      ([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`
+    )
+    .join("\n");
+
+  const scoreRows = CATEGORY_IDS.map((key) => {
+    const score = result.scores_by_category[key];
+    return `<tr><td>${CATEGORY_LABELS[key]}</td><td class="num" style="color:${
+      getScoreLabel(score).color
+    }">${score}</td></tr>`;
+  }).join("\n");
+
+  const comments = CATEGORY_IDS.filter((key) => result.review_details[key])
+    .map(
+      (key) =>
+        `<h3>${CATEGORY_LABELS[key]}</h3><p class="pre">${escapeHtml(
+          result.review_details[key] ?? ""
+        )}</p>`
+    )
+    .join("\n");
+
+  const issueRows = result.issues
+    .map((issue, idx) => {
+      const sev = getSeverityStyle(issue.issue_severity);
+      return `<tr>
+<td class="num">${idx + 1}</td>
+<td><span class="badge" style="background:${sev.bg};border-color:${
+        sev.border
+      };color:${sev.color}">${escapeHtml(sev.label)}</span></td>
+<td>${escapeHtml(issue.issue_category)}</td>
+<td>${escapeHtml(issueLocation(issue, meta))}</td>
+<td>${escapeHtml(issue.issue_summary)}</td>
+<td class="pre">${escapeHtml(issue.issue_details ?? "")}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  const title = escapeHtml(reportTitle(meta));
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", "Noto Sans KR", sans-serif; background: #020617; color: #e5e7eb; margin: 0; padding: 24px; line-height: 1.5; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 20px; margin: 0 0 16px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; border-left: 3px solid #a855f7; padding-left: 8px; }
+  h3 { font-size: 13px; margin: 16px 0 4px; color: #c4b5fd; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border: 1px solid #1f2937; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #0f172a; color: #9ca3af; font-weight: 500; width: 120px; }
+  .num { text-align: right; white-space: nowrap; }
+  .pre { white-space: pre-wrap; }
+  .overall { font-size: 36px; font-weight: 700; }
+  .badge { display: inline-block; font-size: 10px; padding: 1px 6px; border-radius: 999px; border: 1px solid; }
+  .muted { color: #9ca3af; }
+</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<table>${metaRows}</table>
+
+<h2>점수</h2>
+<p><span class="overall" style="color:${overall.color}">${
+    result.quality_score
+  }</span> <span class="muted">/ 100 · ${escapeHtml(overall.label)}</span></p>
+<table>${scoreRows}</table>
+
+<h2>리뷰 요약</h2>
+<p class="pre">${escapeHtml(result.review_summary || "요약 없음")}</p>
+${comments ? `\n<h2>카테고리별 코멘트</h2>\n${comments}\n` : ""}
+<h2>이슈</h2>
+${
+  result.issues.length > 0
+    ? `<table>
+<tr><th class="num">#</th><th>심각도</th><th>카테고리</th><th>위치</th><th>요약</th><th>상세</th></tr>
+${issueRows}
+</table>`
+    : `<p class="muted">발견된 이슈가 없습니다.</p>`
+}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * 📤 저장 위치를 물어보고 리포트 파일로 저장
+ */
+export async function exportReviewReport(
+  format: ReportFormat,
+  meta: ReportMeta,
+  result: AnalyzerResult
+): Promise<void> {
+  const { ext, filters } = REPORT_FILES[format];
+  const baseName = meta.filePath
+    ? `${path.basename(meta.filePath)}.dkmv-review`
+    : `dkmv-review${meta.reviewId != null ? `-${meta.reviewId}` : ""}`;
+  const folder =
+    (meta.filePath && path.dirname(meta.filePath)) ||
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: folder
+      ? vscode.Uri.file(path.join(folder, `${baseName}.${ext}`))
+      : undefined,
+    filters,
+    saveLabel: "리포트 저장",
+  });
+  if (!target) return;
+
+  let content: string;
+  if (format === "sarif") {
+    // 워크스페이스 안의 파일이면 상대 경로로
+    const root = meta.filePath
+      ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(meta.filePath))?.uri
+          .fsPath
+      : undefined;
+    content =
+      JSON.stringify(buildSarifLog([{ meta, result }], root), null, 2) + "\n";
+  } else if (format === "markdown") {
+    content = buildMarkdownReport(meta, result);
+  } else {
+    content = buildHtmlReport(meta, result);
+  }
+  await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+
+  const open = await vscode.window.showInformationMessage(
+    `DKMV: 리포트를 저장했습니다. (${path.basename(target.fsPath)})`,
+    "열기"
+  );
+  if (open) {
+    if (format === "html") {
+      await vscode.env.openExternal(target);
+    } else {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+}
+
+type HistoryPickItem = vscode.QuickPickItem & { index: number };
+
+/**
+ * dkmv.exportReport: 리뷰 기록에서 고른 결과를 Markdown / HTML / SARIF 로 저장
+ */
+export async function exportReportFromHistory(): Promise<void> {
+  const history = getReviewHistory();
+  if (history.length === 0) {
+    vscode.window.showInformationMessage(
+      "DKMV: 내보낼 리뷰 기록이 없습니다. 먼저 코드를 리뷰해 주세요."
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick<HistoryPickItem>(
+    history.map((e, index) => ({
+      label: `${e.review_id != null ? `#${e.review_id} ` : ""}${
+        e.file_path ? path.basename(e.file_path) : "(파일 없음)"
+      }`,
+      description: `${e.analyzer_result.quality_score}점 · ${e.model}`,
+      detail: new Date(e.created_at).toLocaleString(),
+      index,
+    })),
+    { title: "DKMV: 내보낼 리뷰 선택" }
+  );
+  if (!picked) return;
+
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: "Markdown", format: "markdown" as const },
+      { label: "HTML", format: "html" as const },
+      { label: "SARIF 2.1.0", format: "sarif" as const },
+    ],
+    { title: "DKMV: 리포트 형식" }
+  );
+  if (!format) return;
+
+  const entry = history[picked.index];
+  await exportReviewReport(
+    format.format,
+    {
+      filePath: entry.file_path,
+      languageId: entry.language_id,
+      model: entry.model,
+      reviewId: entry.review_id,
+      reviewedAt: entry.created_at,
+      selectionStart: entry.selection_start ?? null,
+      lineMap: entry.line_map ?? null,
+    },
+    entry.analyzer_result
+  );
+}
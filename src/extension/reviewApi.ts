@@ -0,0 +1,241 @@
+// src/extension/reviewApi.ts
+// 🔌 DKMV 인증/리뷰 서버 클라이언트
+//  - GET  {auth}/v1/users/me
+//  - POST {review}/v1/reviews/request
+//  - GET  {review}/v1/reviews/{id}
+//  - GET  {review}/v1/reviews/{id}/events (SSE 진행 스트림, 선택)
+//  - GET  {review}/v1/reviews?user_id=..&limit=..
+//  - GET  {review}/v1/models (OpenRouter 호환 모델 목록)
+// 모든 응답은 src/shared/reviewSchema.ts 로 런타임 검증 후 반환
+// 타임아웃 / 재시도는 공통 HTTP 레이어(http.ts)가 담당
+import { getEndpoints } from "./config";
+import { httpFetch, httpRequestText } from "./http";
+import { parseModelCatalog } from "../shared/modelOptions";
+import type { ModelOption } from "../shared/modelOptions";
+import {
+  parseReviewCreated,
+  parseReviewDetail,
+  parseReviewList,
+  parseUserMe,
+  SchemaError,
+} from "../shared/reviewSchema";
+import type {
+  ReviewCreated,
+  ReviewDetail,
+  ReviewSummary,
+  UserMe,
+} from "../shared/reviewSchema";
+
+// ReviewRequest 스펙
+export type ReviewRequestPayload = {
+  meta: {
+    user_id: number | null;
+    review_id: number | null;
+    version: string;
+    actor: string;
+    code_fingerprint: string | null;
+    model: string | null;
+    result: {
+      result_ref: string | null;
+      error_message: string | null;
+    };
+    audit: {
+      created_at: string;
+      updated_at: string;
+    };
+  };
+  body: {
+    snippet: {
+      code: string;
+      language: string;
+    };
+    trigger: "manual" | "auto";
+  };
+};
+
+// HTTP 레벨 실패 (4xx / 5xx)
+export class ReviewApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ReviewApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * fetch(타임아웃 + 재시도) + 상태코드 확인 + JSON 파싱
+ *  - 서버에 닿지 못함: NetworkError (http.ts)
+ *  - HTTP 실패: ReviewApiError
+ *  - JSON 이 아님: SchemaError
+ */
+async function requestJson(
+  label: string,
+  url: string,
+  init: RequestInit
+): Promise<unknown> {
+  const resp = await httpRequestText(url, init);
+  const text = resp.text;
+
+  if (!resp.ok) {
+    throw new ReviewApiError(
+      `${label} 실패 (HTTP ${resp.status}): ${text}`,
+      resp.status
+    );
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SchemaError("$", "JSON", text, "JSON 이 아닌 응답");
+  }
+}
+
+export async function fetchMe(token: string): Promise<UserMe> {
+  const { authApiBase } = getEndpoints();
+  const json = await requestJson("유저 조회", `${authApiBase}/v1/users/me`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+  return parseUserMe(json);
+}
+
+export async function createReview(
+  token: string,
+  payload: ReviewRequestPayload,
+  signal?: AbortSignal
+): Promise<ReviewCreated> {
+  const { reviewApiBase } = getEndpoints();
+  const json = await requestJson(
+    "리뷰 생성",
+    `${reviewApiBase}/v1/reviews/request`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+      signal,
+    }
+  );
+  return parseReviewCreated(json);
+}
+
+export async function getReview(
+  token: string,
+  reviewId: number,
+  signal?: AbortSignal
+): Promise<{ detail: ReviewDetail; raw: unknown }> {
+  const { reviewApiBase } = getEndpoints();
+  const raw = await requestJson(
+    "리뷰 조회",
+    `${reviewApiBase}/v1/reviews/${reviewId}`,
+    {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      signal,
+    }
+  );
+  return { detail: parseReviewDetail(raw), raw };
+}
+
+// 이 상태코드면 서버가 스트리밍을 지원하지 않는 것으로 봄 (폴링으로 대체)
+const STREAM_UNSUPPORTED_STATUS = [404, 405, 406, 501];
+
+/**
+ * 리뷰 진행 이벤트 스트림 (text/event-stream) 열기
+ *  - 스트리밍을 지원하지 않는 서버면 null
+ *  - 그 밖의 HTTP 실패: ReviewApiError
+ */
+export async function openReviewEvents(
+  token: string,
+  reviewId: number,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  const { reviewApiBase } = getEndpoints();
+  const resp = await httpFetch(
+    `${reviewApiBase}/v1/reviews/${reviewId}/events`,
+    {
+      method: "GET",
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${token}`,
+      },
+      signal,
+    },
+    // 스트림은 재시도하지 않음 — 실패하면 호출자가 폴링으로 대체
+    { retries: 0 }
+  );
+
+  if (STREAM_UNSUPPORTED_STATUS.includes(resp.status)) {
+    await resp.body?.cancel();
+    return null;
+  }
+  if (!resp.ok) {
+    throw new ReviewApiError(
+      `리뷰 스트림 연결 실패 (HTTP ${resp.status}): ${await resp.text()}`,
+      resp.status
+    );
+  }
+
+  const contentType = resp.headers.get("content-type") ?? "";
+  if (!contentType.includes("text/event-stream") || !resp.body) {
+    await resp.body?.cancel();
+    return null;
+  }
+  return resp.body;
+}
+
+/**
+ * 내 리뷰 목록 (최근 순) — 리뷰 기록 사이드바용
+ */
+export async function listReviews(
+  token: string,
+  userId: number,
+  limit: number,
+  signal?: AbortSignal
+): Promise<ReviewSummary[]> {
+  const { reviewApiBase } = getEndpoints();
+  const params = new URLSearchParams({
+    user_id: String(userId),
+    limit: String(limit),
+  });
+  const json = await requestJson(
+    "리뷰 목록 조회",
+    `${reviewApiBase}/v1/reviews?${params.toString()}`,
+    {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      signal,
+    }
+  );
+  return parseReviewList(json);
+}
+
+/**
+ * 리뷰 서버가 지원하는 모델 목록 (토큰이 없으면 인증 없이 요청)
+ */
+export async function listModels(
+  token: string | null,
+  signal?: AbortSignal
+): Promise<ModelOption[]> {
+  const { reviewApiBase } = getEndpoints();
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const json = await requestJson(
+    "모델 목록 조회",
+    `${reviewApiBase}/v1/models`,
+    { method: "GET", headers, signal }
+  );
+  return parseModelCatalog(json);
+}
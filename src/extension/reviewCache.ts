@@ -0,0 +1,93 @@
+// src/extension/reviewCache.ts
+import * as vscode from "vscode";
+
+import type { AnalyzerResult } from "../shared/reviewSchema";
+
+// 💾 (code_fingerprint + model) → AnalyzerResult 로컬 캐시
+// globalState 에 저장해서 VS Code 재시작 후에도 유지
+// (v2: 검증된 AnalyzerResult 만 저장 — 예전 형식의 캐시는 무시)
+const CACHE_KEY = "dkmv.reviewCache.v2";
+const LEGACY_CACHE_KEYS = ["dkmv.reviewCache"];
+const MAX_ENTRIES = 200;
+
+export type CachedReview = {
+  fingerprint: string;
+  model: string;
+  review_id: number | null;
+  analyzer_result: AnalyzerResult;
+  cached_at: string;
+};
+
+let memento: vscode.Memento | undefined;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+// 캐시가 바뀌면 (CodeLens 의 마지막 점수 갱신 등)
+export const onDidChangeReviewCache = changeEmitter.event;
+
+export function initReviewCache(context: vscode.ExtensionContext) {
+  memento = context.globalState;
+  context.subscriptions.push(changeEmitter);
+  for (const key of LEGACY_CACHE_KEYS) {
+    if (memento.get(key) !== undefined) {
+      void memento.update(key, undefined);
+    }
+  }
+}
+
+export function isReviewCacheEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("dkmv")
+    .get<boolean>("cache.enabled", true);
+}
+
+const cacheKey = (fingerprint: string, model: string) =>
+  `${model}::${fingerprint}`;
+
+function readAll(): Record<string, CachedReview> {
+  return memento?.get<Record<string, CachedReview>>(CACHE_KEY) ?? {};
+}
+
+export function getCachedReview(
+  fingerprint: string,
+  model: string
+): CachedReview | undefined {
+  return readAll()[cacheKey(fingerprint, model)];
+}
+
+/**
+ * 모델과 상관없이 같은 코드의 가장 최근 캐시 항목
+ */
+export function getLatestCachedReview(
+  fingerprint: string
+): CachedReview | undefined {
+  let latest: CachedReview | undefined;
+  for (const entry of Object.values(readAll())) {
+    if (entry.fingerprint !== fingerprint) continue;
+    if (!latest || entry.cached_at > latest.cached_at) latest = entry;
+  }
+  return latest;
+}
+
+/**
+ * 결과 저장 (오래된 항목부터 잘라서 MAX_ENTRIES 유지)
+ */
+export async function putCachedReview(entry: CachedReview): Promise<void> {
+  if (!memento) return;
+
+  const all = readAll();
+  all[cacheKey(entry.fingerprint, entry.model)] = entry;
+
+  const entries = Object.entries(all).sort((a, b) =>
+    b[1].cached_at.localeCompare(a[1].cached_at)
+  );
+  await memento.update(
+    CACHE_KEY,
+    Object.fromEntries(entries.slice(0, MAX_ENTRIES))
+  );
+  changeEmitter.fire();
+}
+
+export async function clearReviewCache(): Promise<void> {
+  await memento?.update(CACHE_KEY, undefined);
+  changeEmitter.fire();
+}
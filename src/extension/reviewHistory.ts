@@ -0,0 +1,55 @@
+// src/extension/reviewHistory.ts
+import * as vscode from "vscode";
+
+import type { AnalyzerResult } from "../shared/reviewSchema";
+
+// 🕘 이 PC 에서 받은 리뷰 결과 기록 (globalState, 최근 순)
+// 웹뷰에서 NEW_CODE 로 결과가 지워져도 사이드바에서 다시 열 수 있도록 보관
+const HISTORY_KEY = "dkmv.reviewHistory";
+const MAX_ENTRIES = 100;
+
+export type HistoryEntry = {
+  review_id: number | null;
+  file_path: string | null;
+  language_id: string;
+  model: string;
+  trigger: "manual" | "auto";
+  code: string;
+  // 스니펫 위치 (리포트의 파일 기준 줄 번호용). 예전 기록에는 없음
+  selection_start?: { line: number; character: number } | null;
+  line_map?: number[] | null;
+  analyzer_result: AnalyzerResult;
+  created_at: string;
+};
+
+let memento: vscode.Memento | undefined;
+const changeEmitter = new vscode.EventEmitter<void>();
+
+export const onDidChangeReviewHistory = changeEmitter.event;
+
+export function initReviewHistory(context: vscode.ExtensionContext) {
+  memento = context.globalState;
+  context.subscriptions.push(changeEmitter);
+}
+
+export function getReviewHistory(): HistoryEntry[] {
+  return memento?.get<HistoryEntry[]>(HISTORY_KEY) ?? [];
+}
+
+/**
+ * 기록 추가 (같은 review_id 는 최신 것으로 교체, MAX_ENTRIES 유지)
+ */
+export async function addReviewHistory(entry: HistoryEntry): Promise<void> {
+  if (!memento) return;
+
+  const rest = getReviewHistory().filter(
+    (e) => entry.review_id == null || e.review_id !== entry.review_id
+  );
+  await memento.update(HISTORY_KEY, [entry, ...rest].slice(0, MAX_ENTRIES));
+  changeEmitter.fire();
+}
+
+export async function clearReviewHistory(): Promise<void> {
+  await memento?.update(HISTORY_KEY, undefined);
+  changeEmitter.fire();
+}
@@ -0,0 +1,112 @@
+// src/extension/reviewPolling.ts
+import { getReview } from "./reviewApi";
+import type { ReviewDetail, ReviewStatus } from "../shared/reviewSchema";
+
+export type PollOptions = {
+  reviewId: number;
+  token: string;
+  signal: AbortSignal;
+  // 상태가 바뀌거나 재조회할 때마다 호출 (ANALYZE_PROGRESS 용)
+  onStatus?: (status: ReviewStatus, elapsedMs: number, attempt: number) => void;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  timeoutMs?: number;
+};
+
+export type PollResult = {
+  detail: ReviewDetail;
+  raw: unknown;
+};
+
+// 사용자가 취소한 경우 (CANCEL_ANALYZE)
+export class ReviewCancelledError extends Error {
+  constructor() {
+    super("리뷰 요청이 취소되었습니다.");
+    this.name = "ReviewCancelledError";
+  }
+}
+
+// 전체 대기 시간 초과
+export class ReviewTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(
+      `리뷰 결과를 기다리는 시간이 초과되었습니다. (${Math.round(
+        timeoutMs / 1000
+      )}초)`
+    );
+    this.name = "ReviewTimeoutError";
+  }
+}
+
+/**
+ * AbortSignal 을 존중하는 sleep
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ReviewCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ReviewCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 리뷰가 done/failed 가 될 때까지 지수 백오프로 GET 반복
+ *  - 전체 timeoutMs 를 넘기면 ReviewTimeoutError
+ *  - signal 이 abort 되면 ReviewCancelledError
+ */
+export async function pollReviewUntilDone(
+  options: PollOptions
+): Promise<PollResult> {
+  const {
+    reviewId,
+    token,
+    signal,
+    onStatus,
+    initialDelayMs = 1000,
+    maxDelayMs = 8000,
+    backoffFactor = 1.6,
+    timeoutMs = 180_000,
+  } = options;
+
+  const startedAt = Date.now();
+  let delay = initialDelayMs;
+  let attempt = 0;
+
+  for (;;) {
+    attempt += 1;
+
+    let result: PollResult;
+    try {
+      result = await getReview(token, reviewId, signal);
+    } catch (e) {
+      if (signal.aborted) throw new ReviewCancelledError();
+      throw e;
+    }
+
+    const { status } = result.detail;
+    const elapsed = Date.now() - startedAt;
+    onStatus?.(status, elapsed, attempt);
+
+    if (status === "done" || status === "failed") {
+      return result;
+    }
+
+    if (elapsed + delay > timeoutMs) {
+      throw new ReviewTimeoutError(timeoutMs);
+    }
+
+    await sleep(delay, signal);
+    delay = Math.min(maxDelayMs, Math.round(delay * backoffFactor));
+  }
+}
@@ -0,0 +1,285 @@
+// src/extension/reviewRunner.ts
+// 리뷰 1건 실행 (캐시 확인 → POST → 스트리밍/폴링 → 캐시 저장)
+// 웹뷰 수동 분석 / 저장 시 자동 리뷰 등 여러 진입점에서 공통으로 사용
+import * as vscode from "vscode";
+
+import { createReview } from "./reviewApi";
+import { isNetworkError } from "./http";
+import type { ReviewRequestPayload } from "./reviewApi";
+import { pollReviewUntilDone } from "./reviewPolling";
+import { streamReviewUntilDone } from "./reviewStream";
+import { computeCodeFingerprint } from "./fingerprint";
+import { addReviewHistory } from "./reviewHistory";
+import { isModelAllowed } from "./modelCatalog";
+import {
+  getCachedReview,
+  isReviewCacheEnabled,
+  putCachedReview,
+} from "./reviewCache";
+import type {
+  AnalyzerResult,
+  CategoryId,
+  ReviewStage,
+} from "../shared/reviewSchema";
+
+export type ReviewJob = {
+  code: string;
+  languageId: string;
+  model: string;
+  trigger: ReviewRequestPayload["body"]["trigger"];
+  // true 면 로컬 캐시를 건너뛰고 항상 서버에 요청
+  force?: boolean;
+  // 리뷰 기록에 남길 파일 경로 (없으면 기록에 파일 없이 표시)
+  filePath?: string;
+  // 기록에서 리포트를 내보낼 때 이슈 위치를 파일 기준으로 맞추는 데 사용
+  //  - 선택 영역 / 심볼 리뷰면 시작 위치, git 변경분 리뷰면 스니펫 줄 → 파일 줄
+  selectionStart?: { line: number; character: number } | null;
+  lineMap?: number[];
+};
+
+export type ReviewAuth = {
+  token: string;
+  userId: number | null;
+};
+
+export type ReviewOutcome = {
+  reviewId: number | null;
+  model: string;
+  fingerprint: string;
+  result: AnalyzerResult;
+  cached: boolean;
+  cachedAt: string | null;
+  requestPayload: ReviewRequestPayload | null;
+  rawResponse: unknown;
+};
+
+export type RunReviewOptions = {
+  signal: AbortSignal;
+  // ANALYZE_PROGRESS 등에 그대로 보여줄 단계 문구
+  onProgress?: (message: string) => void;
+  // 📡 서버가 알려주는 실제 진행 단계 (스트리밍 / 폴링 공통)
+  onStage?: (stage: ReviewStage) => void;
+  // 카테고리 코멘트 조각 (스트리밍 서버에서만, 지금까지 쌓인 전체 텍스트)
+  onPartial?: (category: CategoryId, text: string) => void;
+};
+
+// 📮 리뷰 요청(POST) 자체가 서버에 닿지 못함 → 오프라인 대기열에 넣을 수 있음
+// (폴링 중 끊긴 경우 / 응답 타임아웃은 서버에 이미 리뷰가 있을 수 있으므로 해당하지 않음)
+export class ReviewNotSentError extends Error {
+  constructor(cause: Error) {
+    super(`리뷰 서버에 연결할 수 없습니다. ${cause.message}`);
+    this.name = "ReviewNotSentError";
+  }
+}
+
+// ⏳ 서버에 요청 중인 리뷰 수 (상태바 스피너용)
+let runningCount = 0;
+const runningEmitter = new vscode.EventEmitter<number>();
+
+export const onDidChangeRunningReviews = runningEmitter.event;
+
+export function getRunningReviewCount(): number {
+  return runningCount;
+}
+
+// ✅ 리뷰 1건이 끝남 (캐시 히트 포함, 상태바의 파일별 점수용)
+const finishedEmitter = new vscode.EventEmitter<{
+  job: ReviewJob;
+  outcome: ReviewOutcome;
+}>();
+
+export const onDidFinishReview = finishedEmitter.event;
+
+const STAGE_LABELS: Record<ReviewStage, string> = {
+  queued: "리뷰가 대기열에 있습니다",
+  running: "LLM이 코드를 리뷰하는 중입니다",
+  scoring: "카테고리별 점수를 매기는 중입니다",
+  done: "리뷰가 완료되었습니다",
+  failed: "리뷰에 실패했습니다",
+};
+
+/**
+ * 리뷰 1건 실행:
+ *  0) 캐시 히트면 서버 요청 없이 바로 반환 (force 면 건너뜀)
+ *  1) POST /v1/reviews/request   → 리뷰 생성 + review_id 받기
+ *  2) GET  /v1/reviews/{id}/events (SSE) 로 진행 상황 수신
+ *     → 스트리밍을 지원하지 않으면 GET /v1/reviews/{id} 폴링
+ *  3) 캐시 + 리뷰 기록 저장
+ */
+export async function runReview(
+  job: ReviewJob,
+  auth: ReviewAuth,
+  options: RunReviewOptions
+): Promise<ReviewOutcome> {
+  // 🔒 관리자가 제한한 모델이면 캐시든 서버든 사용하지 않음
+  if (!isModelAllowed(job.model)) {
+    throw new Error(
+      `'${job.model}' 모델은 dkmv.models.allowed 설정에서 허용되지 않았습니다.`
+    );
+  }
+
+  const fingerprint = computeCodeFingerprint(job.code, job.languageId);
+
+  // 💾 캐시 히트: 변경 없는 스니펫 + 같은 모델이면 서버 요청 없이 바로 반환
+  const cached =
+    !job.force && isReviewCacheEnabled()
+      ? getCachedReview(fingerprint, job.model)
+      : undefined;
+  if (cached) {
+    const outcome: ReviewOutcome = {
+      reviewId: cached.review_id,
+      model: job.model,
+      fingerprint,
+      result: cached.analyzer_result,
+      cached: true,
+      cachedAt: cached.cached_at,
+      requestPayload: null,
+      rawResponse: null,
+    };
+    finishedEmitter.fire({ job, outcome });
+    return outcome;
+  }
+
+  runningCount += 1;
+  runningEmitter.fire(runningCount);
+  try {
+    return await requestAndPoll(job, auth, options, fingerprint);
+  } finally {
+    runningCount -= 1;
+    runningEmitter.fire(runningCount);
+  }
+}
+
+/**
+ * 캐시 미스일 때 실제 서버 요청 (POST → 스트리밍/폴링 → 캐시/기록 저장)
+ */
+async function requestAndPoll(
+  job: ReviewJob,
+  auth: ReviewAuth,
+  options: RunReviewOptions,
+  fingerprint: string
+): Promise<ReviewOutcome> {
+  const { signal, onProgress, onStage, onPartial } = options;
+
+  // 1/4: LLM 요청 준비
+  onProgress?.("1/4 • LLM 리뷰 요청을 준비 중입니다...");
+
+  const nowIso = new Date().toISOString();
+
+  const body: ReviewRequestPayload = {
+    meta: {
+      user_id: auth.userId,
+      review_id: null,
+      version: "v1",
+      actor: "vscode-extension",
+      code_fingerprint: fingerprint,
+      model: job.model,
+      result: {
+        result_ref: null,
+        error_message: null,
+      },
+      audit: {
+        created_at: nowIso,
+        updated_at: nowIso,
+      },
+    },
+    body: {
+      snippet: {
+        code: job.code,
+        language: job.languageId,
+      },
+      trigger: job.trigger,
+    },
+  };
+
+  // 2/4: POST /v1/reviews/request
+  onProgress?.("2/4 • LLM 서버로 리뷰 요청을 전송 중입니다...");
+
+  let reviewId: number;
+  try {
+    ({ review_id: reviewId } = await createReview(auth.token, body, signal));
+  } catch (e) {
+    // 타임아웃은 서버가 이미 받았을 수 있으므로 대기열에 넣지 않음 (중복 리뷰 방지)
+    if (isNetworkError(e) && !e.timedOut && !signal.aborted) {
+      throw new ReviewNotSentError(e);
+    }
+    throw e;
+  }
+
+  // 3/4: 리뷰 완료까지 대기 (스트리밍 → 폴링 대체, 전체 타임아웃)
+  const config = vscode.workspace.getConfiguration("dkmv");
+  const timeoutSec = config.get<number>("review.pollTimeoutSeconds", 180);
+  const reportStage = (stage: ReviewStage, elapsedMs: number) => {
+    onStage?.(stage);
+    onProgress?.(
+      `3/4 • ${STAGE_LABELS[stage]} (review_id: ${reviewId}, ${Math.round(
+        elapsedMs / 1000
+      )}초 경과)`
+    );
+  };
+
+  const { detail, raw } = config.get<boolean>("review.streaming", true)
+    ? await streamReviewUntilDone({
+        reviewId,
+        token: auth.token,
+        signal,
+        timeoutMs: Math.max(10, timeoutSec) * 1000,
+        onStage: (stage, _message, elapsedMs) => reportStage(stage, elapsedMs),
+        onPartial,
+      })
+    : await pollReviewUntilDone({
+        reviewId,
+        token: auth.token,
+        signal,
+        timeoutMs: Math.max(10, timeoutSec) * 1000,
+        onStatus: (st, elapsedMs) =>
+          reportStage(st === "pending" ? "queued" : st, elapsedMs),
+      });
+
+  if (detail.status === "failed" || !detail.result) {
+    throw new Error(
+      detail.error_message ?? "서버에서 리뷰 생성에 실패했습니다."
+    );
+  }
+
+  // 💾 같은 스니펫 + 모델로 다시 요청하면 바로 돌려줄 수 있도록 저장
+  if (isReviewCacheEnabled()) {
+    await putCachedReview({
+      fingerprint,
+      model: job.model,
+      review_id: reviewId,
+      analyzer_result: detail.result,
+      cached_at: new Date().toISOString(),
+    });
+  }
+
+  // 🕘 사이드바 리뷰 기록
+  await addReviewHistory({
+    review_id: reviewId,
+    file_path: job.filePath ?? null,
+    language_id: job.languageId,
+    model: job.model,
+    trigger: job.trigger,
+    code: job.code,
+    selection_start: job.selectionStart ?? null,
+    line_map: job.lineMap ?? null,
+    analyzer_result: detail.result,
+    created_at: new Date().toISOString(),
+  });
+
+  // 4/4: 최종 성공
+  onProgress?.("4/4 • 리뷰 결과 수신 완료! 분석 내용을 표시합니다.");
+
+  const outcome: ReviewOutcome = {
+    reviewId,
+    model: job.model,
+    fingerprint,
+    result: detail.result,
+    cached: false,
+    cachedAt: null,
+    requestPayload: body,
+    rawResponse: raw,
+  };
+  finishedEmitter.fire({ job, outcome });
+  return outcome;
+}
@@ -0,0 +1,185 @@
+// src/extension/reviewStream.ts
+// 📡 리뷰 진행 스트리밍 (SSE): 실제 단계 + 카테고리 코멘트 조각을 받는 대로 전달
+// 서버가 스트리밍을 지원하지 않거나 도중에 끊기면 폴링(reviewPolling.ts)으로 이어서 대기
+import { getEndpoints } from "./config";
+import { openReviewEvents } from "./reviewApi";
+import {
+  pollReviewUntilDone,
+  ReviewCancelledError,
+  ReviewTimeoutError,
+} from "./reviewPolling";
+import type { PollResult } from "./reviewPolling";
+import { parseReviewStreamEvent } from "../shared/reviewSchema";
+import type {
+  CategoryId,
+  ReviewStage,
+  ReviewStatus,
+} from "../shared/reviewSchema";
+
+export type StreamOptions = {
+  reviewId: number;
+  token: string;
+  signal: AbortSignal;
+  timeoutMs: number;
+  // 단계가 바뀔 때 (폴링으로 대체된 경우에도 status 로 호출)
+  onStage?: (
+    stage: ReviewStage,
+    message: string | null,
+    elapsedMs: number
+  ) => void;
+  // 카테고리 코멘트가 도착할 때마다 지금까지 쌓인 전체 텍스트
+  onPartial?: (category: CategoryId, text: string) => void;
+};
+
+type SseMessage = { event: string; data: string };
+
+// 폴링 status → 스트리밍 단계
+const STATUS_STAGES: Record<ReviewStatus, ReviewStage> = {
+  pending: "queued",
+  running: "running",
+  done: "done",
+  failed: "failed",
+};
+
+// 스트리밍을 지원하지 않는 서버 (reviewApiBase) — 세션 동안 다시 시도하지 않음
+const unsupportedServers = new Set<string>();
+
+/**
+ * text/event-stream 바이트 → 이벤트 단위 (event + 여러 줄 data)
+ *  - ":" 로 시작하는 주석(하트비트), id / retry 필드는 무시
+ */
+async function* readSseMessages(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SseMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+
+        if (line === "") {
+          if (data.length > 0) {
+            yield { event, data: data.join("\n") };
+          }
+          event = "";
+          data = [];
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * 리뷰가 done/failed 가 될 때까지 스트림으로 진행 상황을 받음
+ *  - 단계 / 코멘트 조각은 콜백으로 바로 전달
+ *  - 스트림이 끝나면(정상 종료든 끊김이든) 최종 결과는 GET 으로 한 번 더 확인
+ *    (폴링 첫 조회가 바로 done 이면 그대로 반환)
+ *  - 전체 timeoutMs 를 넘기면 ReviewTimeoutError, 취소되면 ReviewCancelledError
+ */
+export async function streamReviewUntilDone(
+  options: StreamOptions
+): Promise<PollResult> {
+  const { reviewId, token, signal, timeoutMs, onStage } = options;
+  const { reviewApiBase } = getEndpoints();
+  const startedAt = Date.now();
+
+  if (!unsupportedServers.has(reviewApiBase)) {
+    await readStream(options, startedAt, reviewApiBase);
+  }
+
+  // 나머지 대기는 폴링 (남은 시간만큼)
+  return pollReviewUntilDone({
+    reviewId,
+    token,
+    signal,
+    timeoutMs: Math.max(1000, timeoutMs - (Date.now() - startedAt)),
+    onStatus: (status) =>
+      onStage?.(STATUS_STAGES[status], null, Date.now() - startedAt),
+  });
+}
+
+/**
+ * 스트림을 끝까지(또는 done/failed 이벤트까지) 읽음
+ *  - 취소 / 타임아웃은 예외로, 그 밖의 실패는 조용히 폴링으로 넘김
+ */
+async function readStream(
+  options: StreamOptions,
+  startedAt: number,
+  reviewApiBase: string
+): Promise<void> {
+  const { reviewId, token, signal, timeoutMs, onStage, onPartial } = options;
+
+  // 바깥 취소 + 타임아웃을 스트림 연결 하나로 묶음
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  const texts = new Map<CategoryId, string>();
+
+  try {
+    const body = await openReviewEvents(token, reviewId, controller.signal);
+    if (!body) {
+      unsupportedServers.add(reviewApiBase);
+      return;
+    }
+
+    for await (const message of readSseMessages(body)) {
+      let data: unknown;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        continue;
+      }
+
+      const event = parseReviewStreamEvent(message.event, data);
+      if (!event) continue;
+
+      if (event.type === "partial") {
+        const text = event.delta
+          ? (texts.get(event.category) ?? "") + event.text
+          : event.text;
+        texts.set(event.category, text);
+        onPartial?.(event.category, text);
+        continue;
+      }
+
+      if (event.type === "error") return;
+
+      onStage?.(event.stage, event.message, Date.now() - startedAt);
+      if (event.stage === "done" || event.stage === "failed") return;
+    }
+  } catch (e) {
+    if (signal.aborted) throw new ReviewCancelledError();
+    if (timedOut) throw new ReviewTimeoutError(timeoutMs);
+    console.warn("[DKMV] 리뷰 스트림이 끊겨 폴링으로 전환합니다:", e);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,451 @@
+// src/extension/sarif.ts
+// 🛡️ 리뷰 결과 ↔ SARIF 2.1.0 (CI / 보안 도구 연동용)
+import * as path from "path";
+import { pathToFileURL } from "url";
+import * as vscode from "vscode";
+
+import { publishReviewDiagnostics } from "./diagnostics";
+import type { ReportMeta } from "./reportExport";
+import { CATEGORY_IDS, SchemaError } from "../shared/reviewSchema";
+import type { AnalyzerResult, ReviewIssue } from "../shared/reviewSchema";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+const TOOL_NAME = "DKMV";
+const RULE_PREFIX = "dkmv/";
+const SRCROOT = "SRCROOT";
+
+type SarifLevel = "error" | "warning" | "note" | "none";
+
+type SarifRegion = {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+};
+
+type SarifArtifactLocation = { uri: string; uriBaseId?: string };
+
+// 리뷰 한 건 = SARIF run 하나
+export type SarifReview = {
+  meta: ReportMeta;
+  result: AnalyzerResult;
+};
+
+// 가져온 SARIF 의 파일별 이슈
+export type ImportedSarifFile = {
+  uri: vscode.Uri;
+  issues: ReviewIssue[];
+  reviewId: number | null;
+};
+
+function toSarifLevel(severity: string): SarifLevel {
+  const upper = (severity || "").toUpperCase();
+  if (upper === "HIGH") return "error";
+  if (upper === "MEDIUM") return "warning";
+  if (upper === "LOW") return "note";
+  return "none";
+}
+
+function fromSarifLevel(level: unknown): string {
+  if (level === "error") return "HIGH";
+  if (level === "warning" || level === undefined) return "MEDIUM"; // SARIF 기본값은 warning
+  if (level === "note") return "LOW";
+  return "";
+}
+
+const ruleIdOf = (category: string) =>
+  `${RULE_PREFIX}${(category || "other").toLowerCase()}`;
+
+/**
+ * 파일 경로 → artifactLocation
+ *  - 워크스페이스 안이면 SRCROOT 기준 상대 경로 (CI 에서 체크아웃 위치가 달라도 매칭되도록)
+ */
+function toArtifactLocation(
+  filePath: string | null,
+  root: string | undefined
+): SarifArtifactLocation | undefined {
+  if (!filePath) return undefined;
+  if (root) {
+    const rel = path.relative(root, filePath);
+    if (rel && !rel.startsWith("..") && !path.isAbsolute(rel)) {
+      return {
+        uri: rel.split(path.sep).map(encodeURIComponent).join("/"),
+        uriBaseId: SRCROOT,
+      };
+    }
+  }
+  return { uri: pathToFileURL(filePath).toString() };
+}
+
+const positive = (n: number | undefined): n is number =>
+  typeof n === "number" && n > 0;
+
+/**
+ * 스니펫 기준 (1-based) 라인/컬럼 → 파일 기준 (1-based)
+ *  - lineMap 이 있으면 그걸로 매핑 (git 변경분 리뷰)
+ *  - 없으면 선택 영역 시작 위치만큼 밀어줌 (첫 줄만 컬럼도)
+ */
+export function toFileLocation(
+  meta: Pick<ReportMeta, "selectionStart" | "lineMap">,
+  line: number,
+  column: number | undefined
+): { line: number; column: number | undefined } {
+  const col = positive(column) ? column : undefined;
+  const { lineMap, selectionStart } = meta;
+  if (lineMap && lineMap.length > 0) {
+    const mapped = lineMap[Math.min(line - 1, lineMap.length - 1)] ?? 0;
+    return { line: mapped + 1, column: col };
+  }
+  return {
+    line: line + (selectionStart?.line ?? 0),
+    column:
+      col != null && line === 1 && selectionStart
+        ? col + selectionStart.character
+        : col,
+  };
+}
+
+/**
+ * 이슈의 (스니펫 기준) 라인/컬럼 → 파일 기준 region
+ */
+function toRegion(
+  issue: ReviewIssue,
+  meta: ReportMeta
+): SarifRegion | undefined {
+  if (!positive(issue.issue_line_number)) return undefined;
+
+  const start = toFileLocation(
+    meta,
+    issue.issue_line_number,
+    issue.issue_column_number
+  );
+  const region: SarifRegion = {
+    startLine: start.line,
+    startColumn: start.column,
+  };
+  if (
+    positive(issue.issue_end_line_number) &&
+    issue.issue_end_line_number >= issue.issue_line_number
+  ) {
+    const end = toFileLocation(
+      meta,
+      issue.issue_end_line_number,
+      issue.issue_end_column_number
+    );
+    region.endLine = end.line;
+    region.endColumn = end.column;
+  }
+  return region;
+}
+
+function buildRun(review: SarifReview, root: string | undefined) {
+  const { meta, result } = review;
+  const artifact = toArtifactLocation(meta.filePath, root);
+
+  const ruleIds = Array.from(
+    new Set([
+      ...CATEGORY_IDS.map(ruleIdOf),
+      ...result.issues.map((issue) => ruleIdOf(issue.issue_category)),
+    ])
+  );
+
+  const results = result.issues.map((issue) => {
+    const ruleId = ruleIdOf(issue.issue_category);
+    const region = toRegion(issue, meta);
+
+    return {
+      ruleId,
+      ruleIndex: ruleIds.indexOf(ruleId),
+      level: toSarifLevel(issue.issue_severity),
+      message: {
+        text: issue.issue_details
+          ? `${issue.issue_summary}\n\n${issue.issue_details}`
+          : issue.issue_summary,
+      },
+      locations: artifact
+        ? [
+            {
+              physicalLocation: {
+                artifactLocation: artifact,
+                ...(region ? { region } : {}),
+              },
+            },
+          ]
+        : [],
+      // 🩹 수정 제안 → SARIF fix (위치를 알 때만)
+      ...(artifact && region && issue.issue_suggested_fix != null
+        ? {
+            fixes: [
+              {
+                description: { text: issue.issue_summary },
+                artifactChanges: [
+                  {
+                    artifactLocation: artifact,
+                    replacements: [
+                      {
+                        deletedRegion: region,
+                        insertedContent: { text: issue.issue_suggested_fix },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          }
+        : {}),
+      // 다시 가져올 때 원래 값 복원용
+      properties: {
+        issue_id: issue.issue_id,
+        issue_category: issue.issue_category,
+        issue_severity: issue.issue_severity,
+        issue_summary: issue.issue_summary,
+        issue_details: issue.issue_details,
+      },
+    };
+  });
+
+  return {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        rules: ruleIds.map((id) => ({
+          id,
+          name: id.slice(RULE_PREFIX.length),
+          shortDescription: {
+            text: `DKMV ${id.slice(RULE_PREFIX.length)} review issue`,
+          },
+        })),
+      },
+    },
+    ...(artifact?.uriBaseId && root
+      ? {
+          originalUriBaseIds: {
+            [SRCROOT]: { uri: pathToFileURL(root + path.sep).toString() },
+          },
+        }
+      : {}),
+    ...(artifact ? { artifacts: [{ location: artifact }] } : {}),
+    results,
+    properties: {
+      review_id: meta.reviewId,
+      model: meta.model,
+      language_id: meta.languageId,
+      reviewed_at: meta.reviewedAt,
+      quality_score: result.quality_score,
+      scores_by_category: result.scores_by_category,
+      review_summary: result.review_summary,
+    },
+  };
+}
+
+/**
+ * 📤 리뷰 결과들 → SARIF 2.1.0 로그
+ *  - root: 상대 경로 기준 (보통 워크스페이스 폴더)
+ */
+export function buildSarifLog(reviews: SarifReview[], root?: string) {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: reviews.map((review) => buildRun(review, root)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 📥 가져오기
+// ---------------------------------------------------------------------------
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is JsonRecord =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+function expectRecord(v: unknown, at: string): JsonRecord {
+  if (!isRecord(v)) throw new SchemaError(at, "object", v);
+  return v;
+}
+
+function expectArray(v: unknown, at: string): unknown[] {
+  if (!Array.isArray(v)) throw new SchemaError(at, "array", v);
+  return v;
+}
+
+const stringOr = (v: unknown, fallback: string) =>
+  typeof v === "string" ? v : fallback;
+
+const numberOrUndefined = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) ? v : undefined;
+
+/**
+ * artifactLocation → 파일 Uri
+ *  - uriBaseId 는 run.originalUriBaseIds → 워크스페이스 폴더 → SARIF 파일 위치 순으로 해석
+ */
+function resolveArtifactUri(
+  location: JsonRecord,
+  baseIds: JsonRecord,
+  fallbackBase: vscode.Uri
+): vscode.Uri | undefined {
+  const uri = location.uri;
+  if (typeof uri !== "string" || !uri) return undefined;
+
+  if (/^[a-z][a-z0-9+.-]+:/i.test(uri)) return vscode.Uri.parse(uri);
+
+  let base = fallbackBase;
+  const baseId = location.uriBaseId;
+  if (typeof baseId === "string" && isRecord(baseIds[baseId])) {
+    const baseUri = (baseIds[baseId] as JsonRecord).uri;
+    if (typeof baseUri === "string" && /^[a-z][a-z0-9+.-]+:/i.test(baseUri)) {
+      base = vscode.Uri.parse(baseUri);
+    }
+  }
+  return vscode.Uri.joinPath(base, ...uri.split("/").map(decodeURIComponent));
+}
+
+function toReviewIssue(r: JsonRecord, idx: number): ReviewIssue {
+  const props = isRecord(r.properties) ? r.properties : {};
+  const message = isRecord(r.message) ? stringOr(r.message.text, "") : "";
+  const [firstLine, ...rest] = message.split("\n");
+
+  const location = Array.isArray(r.locations) ? r.locations[0] : undefined;
+  const region =
+    isRecord(location) &&
+    isRecord(location.physicalLocation) &&
+    isRecord(location.physicalLocation.region)
+      ? location.physicalLocation.region
+      : {};
+
+  const ruleId = stringOr(r.ruleId, "");
+  const category = stringOr(
+    props.issue_category,
+    ruleId.startsWith(RULE_PREFIX) ? ruleId.slice(RULE_PREFIX.length) : ruleId
+  );
+
+  return {
+    issue_id: stringOr(props.issue_id, String(idx + 1)),
+    issue_category: category || "other",
+    issue_severity: stringOr(
+      props.issue_severity,
+      fromSarifLevel(r.level)
+    ).toUpperCase(),
+    issue_summary: stringOr(props.issue_summary, firstLine || ruleId),
+    issue_details:
+      typeof props.issue_details === "string"
+        ? props.issue_details
+        : rest.join("\n").trim() || undefined,
+    issue_line_number: numberOrUndefined(region.startLine),
+    issue_column_number: numberOrUndefined(region.startColumn),
+    issue_end_line_number: numberOrUndefined(region.endLine),
+    issue_end_column_number: numberOrUndefined(region.endColumn),
+  };
+}
+
+/**
+ * SARIF 로그 → 파일별 이슈 목록 (DKMV 가 아닌 도구의 SARIF 도 읽음)
+ *  - 위치(파일)가 없는 결과는 건너뜀
+ */
+export function parseSarifLog(
+  json: unknown,
+  sarifUri: vscode.Uri
+): ImportedSarifFile[] {
+  const log = expectRecord(json, "$");
+  const runs = expectArray(log.runs, "runs");
+  const fallbackBase =
+    vscode.workspace.workspaceFolders?.[0]?.uri ??
+    vscode.Uri.joinPath(sarifUri, "..");
+
+  const files = new Map<string, ImportedSarifFile>();
+
+  runs.forEach((runRaw, runIdx) => {
+    const run = expectRecord(runRaw, `runs[${runIdx}]`);
+    const baseIds = isRecord(run.originalUriBaseIds)
+      ? run.originalUriBaseIds
+      : {};
+    const props = isRecord(run.properties) ? run.properties : {};
+    const reviewId = numberOrUndefined(props.review_id) ?? null;
+
+    expectArray(run.results ?? [], `runs[${runIdx}].results`).forEach(
+      (resultRaw, idx) => {
+        const r = expectRecord(resultRaw, `runs[${runIdx}].results[${idx}]`);
+        const location = Array.isArray(r.locations) ? r.locations[0] : null;
+        const artifact =
+          isRecord(location) &&
+          isRecord(location.physicalLocation) &&
+          isRecord(location.physicalLocation.artifactLocation)
+            ? location.physicalLocation.artifactLocation
+            : null;
+        const uri = artifact
+          ? resolveArtifactUri(artifact, baseIds, fallbackBase)
+          : undefined;
+        if (!uri) return;
+
+        const key = uri.toString();
+        let file = files.get(key);
+        if (!file) {
+          file = { uri, issues: [], reviewId };
+          files.set(key, file);
+        }
+        file.issues.push(toReviewIssue(r, idx));
+      }
+    );
+  });
+
+  return Array.from(files.values());
+}
+
+/**
+ * dkmv.importSarif: SARIF 파일을 골라 Problems 패널 / 에디터에 표시
+ */
+export async function importSarifFile(): Promise<void> {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { SARIF: ["sarif", "json"] },
+    openLabel: "SARIF 가져오기",
+  });
+  const sarifUri = picked?.[0];
+  if (!sarifUri) return;
+
+  let files: ImportedSarifFile[];
+  try {
+    const bytes = await vscode.workspace.fs.readFile(sarifUri);
+    files = parseSarifLog(
+      JSON.parse(Buffer.from(bytes).toString("utf8")),
+      sarifUri
+    );
+  } catch (error) {
+    const reason =
+      error instanceof SyntaxError
+        ? "JSON 형식이 아닙니다."
+        : error instanceof Error
+        ? error.message
+        : String(error);
+    vscode.window.showErrorMessage(
+      `DKMV: SARIF 파일을 읽지 못했습니다. ${reason}`
+    );
+    return;
+  }
+
+  if (files.length === 0) {
+    vscode.window.showInformationMessage(
+      "DKMV: SARIF 파일에 파일 위치가 있는 결과가 없습니다."
+    );
+    return;
+  }
+
+  // SARIF 위치는 파일 기준이므로 offset 없이 게시
+  for (const file of files) {
+    await publishReviewDiagnostics(
+      { uri: file.uri, startLine: 0, startCharacter: 0 },
+      file.issues,
+      file.reviewId
+    );
+  }
+
+  const issueCount = files.reduce((n, f) => n + f.issues.length, 0);
+  vscode.window.showInformationMessage(
+    `DKMV: SARIF 에서 ${
+      files.length
+    }개 파일, ${issueCount}개 이슈를 가져왔습니다. (${path.basename(
+      sarifUri.fsPath
+    )})`
+  );
+}
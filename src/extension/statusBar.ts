@@ -0,0 +1,137 @@
+// src/extension/statusBar.ts
+// 📊 상태바: 로그인 상태 + 현재 파일의 마지막 점수 + 리뷰 중 스피너 (클릭 → DKMV 패널)
+import * as vscode from "vscode";
+
+import { getReviewHistory, onDidChangeReviewHistory } from "./reviewHistory";
+import {
+  getRunningReviewCount,
+  onDidChangeRunningReviews,
+  onDidFinishReview,
+} from "./reviewRunner";
+import type { ReviewJob } from "./reviewRunner";
+import { getScoreLabel } from "../shared/reviewStyles";
+import type { UserMe } from "../shared/reviewSchema";
+
+export type StatusBarDeps = {
+  getUser: () => UserMe | null;
+};
+
+type FileScore = {
+  score: number;
+  model: string;
+  reviewedAt: string;
+};
+
+// 파일 경로 → 그 파일 전체를 리뷰한 마지막 결과 (이번 세션, 캐시 히트 포함)
+const lastScores = new Map<string, FileScore>();
+
+// 선택 영역 / 심볼 / git 변경분 리뷰는 파일 점수가 아님
+function isWholeFileReview(job: {
+  selectionStart?: ReviewJob["selectionStart"];
+  lineMap?: number[] | null;
+}): boolean {
+  return !job.selectionStart && !job.lineMap;
+}
+
+// 현재 파일의 마지막 점수 — 이번 세션 결과가 없으면 리뷰 기록(최근 순)에서
+function latestScoreFor(
+  document: vscode.TextDocument | undefined
+): FileScore | undefined {
+  if (!document || document.uri.scheme !== "file") return undefined;
+  const fsPath = document.uri.fsPath;
+  const recorded = lastScores.get(fsPath);
+  if (recorded) return recorded;
+
+  const entry = getReviewHistory().find(
+    (e) =>
+      e.file_path === fsPath &&
+      isWholeFileReview({
+        selectionStart: e.selection_start,
+        lineMap: e.line_map,
+      })
+  );
+  return entry
+    ? {
+        score: entry.analyzer_result.quality_score,
+        model: entry.model,
+        reviewedAt: entry.created_at,
+      }
+    : undefined;
+}
+
+export function registerStatusBar(
+  context: vscode.ExtensionContext,
+  deps: StatusBarDeps
+) {
+  const item = vscode.window.createStatusBarItem(
+    "dkmv.status",
+    vscode.StatusBarAlignment.Right,
+    100
+  );
+  item.name = "DKMV";
+  item.command = "dkmv.openPanel";
+
+  const refresh = () => {
+    const user = deps.getUser();
+    const running = getRunningReviewCount();
+
+    if (!user) {
+      item.text = "$(sign-in) DKMV: 로그인";
+      item.color = undefined;
+      item.tooltip = "DKMV 패널을 열어 로그인하거나 토큰을 설정하세요.";
+      item.show();
+      return;
+    }
+
+    const entry = latestScoreFor(vscode.window.activeTextEditor?.document);
+    const score = entry?.score;
+
+    const parts = [
+      running > 0 ? "$(sync~spin)" : "$(account)",
+      `DKMV ${user.login}`,
+    ];
+    if (running > 0) {
+      parts.push(`· 리뷰 중${running > 1 ? ` (${running})` : ""}`);
+    } else if (score != null) {
+      parts.push(`· ${score}점`);
+    }
+    item.text = parts.join(" ");
+
+    const label = score != null && running === 0 ? getScoreLabel(score) : null;
+    item.color = label?.color;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**DKMV** — ${user.name || user.login}\n\n`);
+    if (entry && label) {
+      tooltip.appendMarkdown(
+        `현재 파일 마지막 점수: **${score}** (${label.label})  \n` +
+          `모델: ${entry.model}  \n` +
+          `시각: ${new Date(entry.reviewedAt).toLocaleString()}`
+      );
+    } else if (running === 0) {
+      tooltip.appendMarkdown("현재 파일의 리뷰 기록이 없습니다.");
+    }
+    tooltip.appendMarkdown("\n\n클릭하면 DKMV 패널을 엽니다.");
+    item.tooltip = tooltip;
+    item.show();
+  };
+
+  context.subscriptions.push(
+    item,
+    vscode.window.onDidChangeActiveTextEditor(refresh),
+    onDidChangeReviewHistory(refresh),
+    onDidFinishReview(({ job, outcome }) => {
+      if (!job.filePath || !isWholeFileReview(job)) return;
+      lastScores.set(job.filePath, {
+        score: outcome.result.quality_score,
+        model: outcome.model,
+        reviewedAt: outcome.cachedAt ?? new Date().toISOString(),
+      });
+      refresh();
+    }),
+    onDidChangeRunningReviews(refresh)
+  );
+
+  refresh();
+  return { refresh };
+}
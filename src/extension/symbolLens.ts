@@ -0,0 +1,105 @@
+// src/extension/symbolLens.ts
+// 🔎 함수 / 메서드 / 클래스마다 "DKMV: Review" CodeLens (+ 캐시된 마지막 점수)
+import * as vscode from "vscode";
+
+import { computeCodeFingerprint } from "./fingerprint";
+import { getLatestCachedReview, onDidChangeReviewCache } from "./reviewCache";
+
+const LENS_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Class,
+]);
+
+type LensSymbol = { name: string; range: vscode.Range };
+
+export function isSymbolLensEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("dkmv")
+    .get<boolean>("codeLens.enabled", true);
+}
+
+/**
+ * 문서 심볼 트리 → CodeLens 를 달 심볼 목록 (중첩된 메서드 포함)
+ *  - 언어 서버에 따라 DocumentSymbol(트리) 또는 SymbolInformation(평면) 이 옴
+ */
+function collectLensSymbols(
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]
+): LensSymbol[] {
+  const out: LensSymbol[] = [];
+
+  const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+    const range = "location" in symbol ? symbol.location.range : symbol.range;
+    if (LENS_SYMBOL_KINDS.has(symbol.kind)) {
+      out.push({ name: symbol.name, range });
+    }
+    if ("children" in symbol) symbol.children.forEach(visit);
+  };
+
+  symbols.forEach(visit);
+  return out;
+}
+
+function lensTitle(document: vscode.TextDocument, range: vscode.Range) {
+  const fingerprint = computeCodeFingerprint(
+    document.getText(range),
+    document.languageId
+  );
+  const cached = getLatestCachedReview(fingerprint);
+  return cached
+    ? `DKMV: Review (마지막 점수 ${cached.analyzer_result.quality_score} · ${cached.model})`
+    : "DKMV: Review";
+}
+
+export function registerSymbolLens(
+  context: vscode.ExtensionContext,
+  reviewRange: (document: vscode.TextDocument, range: vscode.Range) => void
+) {
+  const changeEmitter = new vscode.EventEmitter<void>();
+
+  const provider: vscode.CodeLensProvider = {
+    onDidChangeCodeLenses: changeEmitter.event,
+
+    async provideCodeLenses(document) {
+      if (!isSymbolLensEnabled()) return [];
+
+      const symbols = await vscode.commands.executeCommand<
+        (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+      >("vscode.executeDocumentSymbolProvider", document.uri);
+      if (!symbols) return [];
+
+      return collectLensSymbols(symbols).map(
+        (symbol) =>
+          new vscode.CodeLens(symbol.range, {
+            title: lensTitle(document, symbol.range),
+            tooltip: `${symbol.name} 범위만 DKMV 패널로 보내서 리뷰합니다.`,
+            command: "dkmv.reviewSymbol",
+            arguments: [document.uri, symbol.range],
+          })
+      );
+    },
+  };
+
+  context.subscriptions.push(
+    changeEmitter,
+    vscode.languages.registerCodeLensProvider({ scheme: "file" }, provider),
+    onDidChangeReviewCache(() => changeEmitter.fire()),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("dkmv.codeLens.enabled")) {
+        changeEmitter.fire();
+      }
+    }),
+    vscode.commands.registerCommand(
+      "dkmv.reviewSymbol",
+      async (uri: vscode.Uri, range: vscode.Range) => {
+        const editor = await vscode.window.showTextDocument(uri, {
+          preserveFocus: true,
+        });
+        // 어느 범위를 보냈는지 보이도록 선택
+        editor.selection = new vscode.Selection(range.start, range.end);
+        reviewRange(editor.document, range);
+      }
+    )
+  );
+}
@@ -0,0 +1,40 @@
+// src/extension/tokenStore.ts
+import * as vscode from "vscode";
+
+// 🔐 SecretStorage 키 (예전 버전은 같은 키로 globalState 에 평문 저장했음)
+const TOKEN_KEY = "dkmv.authToken";
+
+/**
+ * 저장된 토큰 읽기
+ *  - SecretStorage 우선
+ *  - 예전 globalState 평문 토큰은 항상 삭제 (SecretStorage 가 비어 있을 때만 옮겨 씀)
+ */
+export async function loadToken(
+  context: vscode.ExtensionContext
+): Promise<string | undefined> {
+  const secret = await context.secrets.get(TOKEN_KEY);
+  const legacy = context.globalState.get<string>(TOKEN_KEY);
+
+  if (legacy !== undefined) {
+    if (!secret && legacy) {
+      await context.secrets.store(TOKEN_KEY, legacy);
+    }
+    await context.globalState.update(TOKEN_KEY, undefined);
+  }
+  return secret || legacy || undefined;
+}
+
+export async function saveToken(
+  context: vscode.ExtensionContext,
+  token: string
+): Promise<void> {
+  await context.secrets.store(TOKEN_KEY, token);
+}
+
+export async function clearToken(
+  context: vscode.ExtensionContext
+): Promise<void> {
+  await context.secrets.delete(TOKEN_KEY);
+  // 마이그레이션 전 평문 토큰이 남아있을 수 있으므로 함께 정리
+  await context.globalState.update(TOKEN_KEY, undefined);
+}
@@ -1,12 +1,72 @@
-// src/webview/modelOptions.ts
+// src/shared/modelOptions.ts
+// 🤖 리뷰 모델 카탈로그
+//  - 평소에는 리뷰 서버의 /v1/models (OpenRouter 호환) 목록을 사용
+//  - 아래 고정 목록은 서버에 닿지 않을 때만 쓰는 오프라인 fallback
+// 익스텐션과 웹뷰가 같이 쓰므로 vscode / react 는 import 하지 않는다.
+import { SchemaError } from "./reviewSchema";
+
+// 모델 ID 끝의 ":free" 같은 접미사 (OpenRouter variant)
+export const MODEL_VARIANTS = [
+  "free",
+  "exacto",
+  "thinking",
+  "extended",
+] as const;
+export type ModelVariant = (typeof MODEL_VARIANTS)[number];
+
+export type ModelFlags = {
+  free: boolean; // :free 또는 가격이 0
+  exacto: boolean; // :exacto (도구 호출 품질 우선 라우팅)
+  thinking: boolean; // :thinking 또는 *-thinking 추론 모델
+  extended: boolean; // :extended (확장 컨텍스트)
+  codeTuned: boolean; // coder / codex / codestral 등 코드 특화
+};
 
 export type ModelOption = {
   id: string; // 실제로 백엔드에 넘길 모델 ID
-  label: string; // UI에 보여줄 이름 (지금은 id랑 같게 둠)
+  label: string; // UI에 보여줄 이름 (provider 와 접미사를 뗀 이름 또는 서버의 name)
   provider: string; // openai, google, qwen 등
+  baseId: string; // 접미사를 뗀 ID (openai/gpt-4o:extended → openai/gpt-4o)
+  variant: string | null; // 접미사 원문 (모르는 값도 그대로 보존)
+  flags: ModelFlags;
+  contextLength: number | null; // 컨텍스트 윈도우 (토큰, 서버가 알려줄 때만)
+  description: string | null;
 };
 
-const RAW_MODEL_IDS: string[] = [
+// 서버(/v1/models)가 주는 부가 정보
+export type ModelMetadata = {
+  name?: string;
+  contextLength?: number | null;
+  description?: string | null;
+  // 가격이 0 이면 접미사가 없어도 무료로 표시
+  free?: boolean;
+};
+
+// 카탈로그 출처 (웹뷰 / QuickPick 에 표시)
+export type ModelCatalogSource = "server" | "cache" | "fallback";
+
+export type ModelCatalog = {
+  models: ModelOption[];
+  source: ModelCatalogSource;
+  fetched_at: string | null;
+};
+
+// 기본 모델(dkmv.defaultModel) + 즐겨찾기 + 최근 사용 (익스텐션 globalState 에 저장)
+export type ModelPreferences = {
+  defaultModel: string | null;
+  favorites: string[];
+  recent: string[]; // 최근 사용 순
+};
+
+/**
+ * 모델을 따로 고르지 않았을 때 쓸 모델: 설정한 기본 모델 → 최근 사용
+ * (명령 / 자동 리뷰와 웹뷰의 미리 선택이 같은 순서를 쓰도록 공유)
+ */
+export function pickPreferredModel(prefs: ModelPreferences): string | null {
+  return prefs.defaultModel ?? prefs.recent[0] ?? null;
+}
+
+const FALLBACK_MODEL_IDS: string[] = [
   "google/gemini-3-pro-image-preview",
   "x-ai/grok-4.1-fast",
   "x-ai/grok-4.1-fast:free",
@@ -348,11 +408,160 @@ const RAW_MODEL_IDS: string[] = [
   "openai/gpt-4",
 ];
 
-export const MODEL_OPTIONS: ModelOption[] = RAW_MODEL_IDS.map((id) => {
-  const provider = id.split("/")[0] ?? "unknown";
+const CODE_TUNED_PATTERN =
+  /(coder|codex|codestral|devstral|starcoder|codegemma|codellama|code-)/i;
+
+const isVariant = (v: string): v is ModelVariant =>
+  (MODEL_VARIANTS as readonly string[]).includes(v);
+
+/**
+ * 모델 ID (+ 서버 메타데이터) → ModelOption
+ *  - "provider/name:variant" 를 나눠서 flags 로
+ */
+export function toModelOption(
+  id: string,
+  meta: ModelMetadata = {}
+): ModelOption {
+  const colon = id.indexOf(":");
+  const baseId = colon >= 0 ? id.slice(0, colon) : id;
+  const variant = colon >= 0 ? id.slice(colon + 1).toLowerCase() || null : null;
+  const slash = baseId.indexOf("/");
+  const provider = slash > 0 ? baseId.slice(0, slash) : "unknown";
+  const shortName = slash > 0 ? baseId.slice(slash + 1) : baseId;
+
+  // 서버 name 은 "OpenAI: GPT-4o" 처럼 provider 가 붙어 와서 떼어냄 (목록은 provider 별로 묶임)
+  const serverName = meta.name?.trim().replace(/^[^:]{1,40}:\s+/, "");
+
   return {
     id,
-    label: id, // 필요하면 나중에 더 예쁜 라벨로 바꿔도 됨
+    label: serverName || shortName,
     provider,
+    baseId,
+    variant,
+    flags: {
+      free: variant === "free" || !!meta.free,
+      exacto: variant === "exacto",
+      thinking: variant === "thinking" || /-thinking$/i.test(baseId),
+      extended: variant === "extended",
+      codeTuned: CODE_TUNED_PATTERN.test(shortName),
+    },
+    contextLength:
+      typeof meta.contextLength === "number" && meta.contextLength > 0
+        ? meta.contextLength
+        : null,
+    description: meta.description?.trim() || null,
   };
-});
+}
+
+// 128000 → "128K", 1048576 → "1M"
+export function formatContextLength(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${Math.round((tokens / 1_000_000) * 10) / 10}M`;
+  }
+  return `${Math.round(tokens / 1000)}K`;
+}
+
+/**
+ * 모델 배지 (목록 / QuickPick 에서 원본 ID 대신 표시)
+ */
+export function getModelBadges(model: ModelOption): string[] {
+  const badges: string[] = [];
+  if (model.flags.free) badges.push("FREE");
+  if (model.flags.codeTuned) badges.push("CODE");
+  if (model.flags.thinking) badges.push("THINKING");
+  if (model.flags.exacto) badges.push("EXACTO");
+  if (model.flags.extended) badges.push("EXTENDED");
+  if (model.variant && !isVariant(model.variant)) {
+    badges.push(model.variant.toUpperCase());
+  }
+  if (model.contextLength) {
+    badges.push(`${formatContextLength(model.contextLength)} ctx`);
+  }
+  return badges;
+}
+
+export const FALLBACK_MODEL_OPTIONS: ModelOption[] = FALLBACK_MODEL_IDS.map(
+  (id) => toModelOption(id)
+);
+
+const isZeroPrice = (v: unknown) =>
+  (typeof v === "string" || typeof v === "number") && Number(v) === 0;
+
+// OpenRouter 모델 항목의 name / context_length / description / pricing
+function readModelMetadata(entry: Record<string, unknown>): ModelMetadata {
+  const pricing =
+    entry.pricing && typeof entry.pricing === "object"
+      ? (entry.pricing as Record<string, unknown>)
+      : null;
+  return {
+    name: typeof entry.name === "string" ? entry.name : undefined,
+    contextLength:
+      typeof entry.context_length === "number" ? entry.context_length : null,
+    description:
+      typeof entry.description === "string" ? entry.description : null,
+    free:
+      !!pricing &&
+      isZeroPrice(pricing.prompt) &&
+      isZeroPrice(pricing.completion),
+  };
+}
+
+/**
+ * GET /v1/models 응답 → ModelOption[]
+ *  - OpenRouter 형태 { data: [{ id, name, context_length, pricing, ... }] } 와 배열 / { models: [...] } 모두 허용
+ *  - id 가 없는 항목은 건너뜀, 중복 id 는 처음 것만
+ */
+export function parseModelCatalog(json: unknown): ModelOption[] {
+  const root =
+    json && typeof json === "object" && !Array.isArray(json)
+      ? (json as Record<string, unknown>)
+      : null;
+  const list = Array.isArray(json)
+    ? json
+    : Array.isArray(root?.data)
+    ? root!.data
+    : Array.isArray(root?.models)
+    ? root!.models
+    : null;
+  if (!list) throw new SchemaError("data", "array", root?.data ?? json);
+
+  const seen = new Set<string>();
+  const models: ModelOption[] = [];
+  for (const item of list as unknown[]) {
+    const entry =
+      typeof item === "string"
+        ? { id: item }
+        : item && typeof item === "object"
+        ? (item as Record<string, unknown>)
+        : null;
+    const id = typeof entry?.id === "string" ? entry.id.trim() : "";
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    models.push(toModelOption(id, readModelMetadata(entry!)));
+  }
+  return models;
+}
+
+// "openai/*", "anthropic/claude-*" 같은 패턴 → 정규식 (* 만 와일드카드)
+const patternToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .trim()
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    "i"
+  );
+
+/**
+ * 관리자 허용 목록(dkmv.models.allowed)으로 카탈로그 제한
+ *  - 패턴이 비어 있으면 전체 허용
+ */
+export function filterModelCatalog(
+  models: ModelOption[],
+  allowed: string[]
+): ModelOption[] {
+  const patterns = allowed.filter((p) => p.trim()).map(patternToRegExp);
+  if (patterns.length === 0) return models;
+  return models.filter((m) => patterns.some((re) => re.test(m.id)));
+}
@@ -0,0 +1,462 @@
+// src/shared/protocol.ts
+// 📨 익스텐션 ↔ 웹뷰 메시지 프로토콜: 양방향 discriminated union + 런타임 검증
+// 익스텐션과 웹뷰가 같이 쓰므로 vscode / react 는 import 하지 않는다.
+// 메시지 모양을 바꾸면 PROTOCOL_VERSION 을 올린다 (HELLO 핸드셰이크로 불일치를 알림)
+import { parseAnalyzerResult, SchemaError } from "./reviewSchema";
+import type {
+  AnalyzerResult,
+  CategoryId,
+  ReviewStage,
+  UserMe,
+} from "./reviewSchema";
+import type { ModelCatalog, ModelPreferences } from "./modelOptions";
+import type { CompareEntry } from "./reviewCompare";
+
+export const PROTOCOL_VERSION = 2;
+
+// 선택 영역 리뷰일 때 문서 기준 시작 위치 (0-based)
+export type SelectionStart = { line: number; character: number };
+
+// 익스텐션이 내려주는 현재 서버 프로필/엔드포인트
+export type EndpointConfig = {
+  profile: string;
+  authApiBase: string;
+  reviewApiBase: string;
+  frontendUrl: string;
+};
+
+export type ReportFormat = "markdown" | "html" | "sarif";
+
+// 💾 웹뷰 상태 스냅샷
+//  - vscode.setState: 같은 패널의 리로드 / VS Code 재시작 (WebviewPanelSerializer)
+//  - SAVE_STATE → 익스텐션 workspaceState: 패널을 닫았다가 다시 열 때
+export type PersistedWebviewState = {
+  version: 1;
+  code: string;
+  filePath: string;
+  languageId: string;
+  mode: "selection" | "document" | null;
+  selectionStart: SelectionStart | null;
+  selectedModel: string;
+  activeTab: "code" | "result" | "compare";
+  resultMessage: string;
+  isError: boolean;
+  resultData: AnalyzerResult | null;
+  resultMeta: {
+    reviewId: number | null;
+    model: string | null;
+    reviewedAt: string | null;
+  } | null;
+  cachedAt: string | null;
+  compareMode: boolean;
+  compareModels: string[];
+  compareEntries: CompareEntry[] | null;
+};
+
+// 어느 쪽이든 받은 메시지가 프로토콜과 맞지 않을 때 상대에게 알림
+export type ProtocolErrorPayload = {
+  messageType: string | null;
+  error: string;
+};
+
+// ───────────────────────── 웹뷰 → 익스텐션 ─────────────────────────
+
+export type WebviewToExtensionMessage =
+  | { type: "HELLO"; payload: { protocolVersion: number } }
+  | { type: "PROTOCOL_ERROR"; payload: ProtocolErrorPayload }
+  | { type: "GET_AUTH_STATE" }
+  | { type: "REQUEST_FULL_DOCUMENT" }
+  | {
+      type: "REQUEST_ANALYZE";
+      payload: {
+        code: string;
+        filePath: string;
+        languageId: string;
+        model: string;
+        selectionStart: SelectionStart | null;
+        force: boolean;
+      };
+    }
+  | {
+      type: "REQUEST_COMPARE";
+      payload: {
+        code: string;
+        filePath: string;
+        languageId: string;
+        models: string[];
+        force: boolean;
+      };
+    }
+  | { type: "CANCEL_ANALYZE" }
+  | { type: "OPEN_LOGIN" }
+  // 실제 URL 은 익스텐션이 현재 프로필 기준으로 결정
+  | { type: "OPEN_TOKEN_PAGE" }
+  | { type: "SET_TOKEN"; payload: { token: string } }
+  | { type: "LOGOUT" }
+  | {
+      type: "EXPORT_REPORT";
+      payload: {
+        format: ReportFormat;
+        meta: {
+          filePath: string | null;
+          languageId: string | null;
+          model: string | null;
+          reviewId: number | null;
+          reviewedAt: string | null;
+          selectionStart: SelectionStart | null;
+        };
+        // 익스텐션에서 parseAnalyzerResult 로 다시 검증
+        analyzer_result: unknown;
+      };
+    }
+  | { type: "TOGGLE_FAVORITE_MODEL"; payload: { modelId: string } }
+  | { type: "SAVE_STATE"; payload: PersistedWebviewState };
+
+// ───────────────────────── 익스텐션 → 웹뷰 ─────────────────────────
+
+export type AnalyzeResultPayload = {
+  phase: "success";
+  review_id: number | null;
+  model: string | null;
+  cached: boolean;
+  cached_at: string | null;
+  // 리뷰 기록에서 다시 연 결과면 기록 시각
+  history_at?: string;
+  request_payload: unknown;
+  raw_review_response: unknown;
+  analyzer_result: AnalyzerResult;
+};
+
+export type ExtensionToWebviewMessage =
+  | { type: "HELLO"; payload: { protocolVersion: number } }
+  | { type: "PROTOCOL_ERROR"; payload: ProtocolErrorPayload }
+  | {
+      type: "AUTH_STATE";
+      payload: { isAuthenticated: boolean; user: UserMe | null };
+    }
+  | { type: "TOKEN_ERROR"; payload: string }
+  | { type: "CONFIG_STATE"; payload: EndpointConfig }
+  | {
+      type: "NEW_CODE";
+      payload: {
+        code: string;
+        fileName: string;
+        filePath: string;
+        languageId: string;
+        mode: "selection" | "document";
+        selectionStart: SelectionStart | null;
+      };
+    }
+  | { type: "ANALYZE_PROGRESS"; payload: string }
+  | { type: "ANALYZE_STAGE"; payload: ReviewStage }
+  | { type: "ANALYZE_PARTIAL"; payload: { category: CategoryId; text: string } }
+  | { type: "ANALYZE_RESULT"; payload: AnalyzeResultPayload }
+  | { type: "ANALYZE_ERROR"; payload: string }
+  | { type: "ANALYZE_CANCELLED"; payload: string }
+  // 📮 서버에 닿지 못해 오프라인 대기열에 넣음
+  | { type: "ANALYZE_QUEUED"; payload: { message: string; pending: number } }
+  | { type: "QUEUE_STATE"; payload: { pending: number } }
+  | { type: "MODEL_CATALOG"; payload: ModelCatalog }
+  | { type: "MODEL_PREFERENCES"; payload: ModelPreferences }
+  | {
+      type: "COMPARE_UPDATE";
+      payload: { entries: CompareEntry[]; done: boolean };
+    };
+
+// ───────────────────────── 런타임 검증 ─────────────────────────
+
+// 값 하나를 검사하고, 틀리면 path 와 함께 SchemaError
+type Check = (v: unknown, path: string) => void;
+
+const typeOf = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+
+const primitive =
+  (expected: "string" | "number" | "boolean"): Check =>
+  (v, path) => {
+    if (
+      typeof v !== expected ||
+      (expected === "number" && !isFinite(v as number))
+    ) {
+      throw new SchemaError(path, expected, v);
+    }
+  };
+
+const str = primitive("string");
+const num = primitive("number");
+const bool = primitive("boolean");
+
+const anything: Check = () => undefined;
+
+const nullable =
+  (check: Check): Check =>
+  (v, path) => {
+    if (v !== null) check(v, path);
+  };
+
+const optional =
+  (check: Check): Check =>
+  (v, path) => {
+    if (v !== undefined) check(v, path);
+  };
+
+const oneOf =
+  (values: readonly string[]): Check =>
+  (v, path) => {
+    if (typeof v !== "string" || !values.includes(v)) {
+      throw new SchemaError(path, values.join(" | "), v);
+    }
+  };
+
+const literal =
+  (value: string | number): Check =>
+  (v, path) => {
+    if (v !== value) throw new SchemaError(path, JSON.stringify(value), v);
+  };
+
+const arrayOf =
+  (item: Check): Check =>
+  (v, path) => {
+    if (!Array.isArray(v)) throw new SchemaError(path, "array", v);
+    v.forEach((x, i) => item(x, `${path}[${i}]`));
+  };
+
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (v, path) => {
+    if (typeOf(v) !== "object") throw new SchemaError(path, "object", v);
+    const o = v as Record<string, unknown>;
+    for (const [key, check] of Object.entries(fields)) {
+      check(o[key], `${path}.${key}`);
+    }
+  };
+
+// 리뷰 결과는 reviewSchema 검증을 그대로 (이슈 필드 하나하나까지)
+const analyzerResult: Check = (v, path) => {
+  parseAnalyzerResult(v, path);
+};
+
+const selectionStart = nullable(shape({ line: num, character: num }));
+const persistedState = shape({
+  version: literal(1),
+  code: str,
+  filePath: str,
+  languageId: str,
+  mode: nullable(oneOf(["selection", "document"])),
+  selectionStart,
+  selectedModel: str,
+  activeTab: oneOf(["code", "result", "compare"]),
+  resultMessage: str,
+  isError: bool,
+  resultData: nullable(analyzerResult),
+  resultMeta: nullable(
+    shape({
+      reviewId: nullable(num),
+      model: nullable(str),
+      reviewedAt: nullable(str),
+    })
+  ),
+  cachedAt: nullable(str),
+  compareMode: bool,
+  compareModels: arrayOf(str),
+  compareEntries: nullable(arrayOf(shape({ model: str }))),
+});
+const protocolError = shape({ messageType: nullable(str), error: str });
+const hello = shape({ protocolVersion: num });
+
+// 메시지 타입별 payload 검사 (null = payload 없음)
+// Record 키가 union 의 type 이라 메시지를 추가하면 여기도 채워야 컴파일된다
+const WEBVIEW_MESSAGE_CHECKS: Record<
+  WebviewToExtensionMessage["type"],
+  Check | null
+> = {
+  HELLO: hello,
+  PROTOCOL_ERROR: protocolError,
+  GET_AUTH_STATE: null,
+  REQUEST_FULL_DOCUMENT: null,
+  REQUEST_ANALYZE: shape({
+    code: str,
+    filePath: str,
+    languageId: str,
+    model: str,
+    selectionStart,
+    force: bool,
+  }),
+  REQUEST_COMPARE: shape({
+    code: str,
+    filePath: str,
+    languageId: str,
+    models: arrayOf(str),
+    force: bool,
+  }),
+  CANCEL_ANALYZE: null,
+  OPEN_LOGIN: null,
+  OPEN_TOKEN_PAGE: null,
+  SET_TOKEN: shape({ token: str }),
+  LOGOUT: null,
+  EXPORT_REPORT: shape({
+    format: oneOf(["markdown", "html", "sarif"]),
+    meta: shape({
+      filePath: nullable(str),
+      languageId: nullable(str),
+      model: nullable(str),
+      reviewId: nullable(num),
+      reviewedAt: nullable(str),
+      selectionStart,
+    }),
+    analyzer_result: shape({}),
+  }),
+  TOGGLE_FAVORITE_MODEL: shape({ modelId: str }),
+  SAVE_STATE: persistedState,
+};
+
+// 중첩이 깊은 payload (결과 / 카탈로그) 는 바깥 모양만 확인
+const EXTENSION_MESSAGE_CHECKS: Record<
+  ExtensionToWebviewMessage["type"],
+  Check | null
+> = {
+  HELLO: hello,
+  PROTOCOL_ERROR: protocolError,
+  AUTH_STATE: shape({
+    isAuthenticated: bool,
+    user: nullable(shape({ id: num, login: str })),
+  }),
+  TOKEN_ERROR: str,
+  CONFIG_STATE: shape({
+    profile: str,
+    authApiBase: str,
+    reviewApiBase: str,
+    frontendUrl: str,
+  }),
+  NEW_CODE: shape({
+    code: str,
+    fileName: str,
+    filePath: str,
+    languageId: str,
+    mode: oneOf(["selection", "document"]),
+    selectionStart,
+  }),
+  ANALYZE_PROGRESS: str,
+  ANALYZE_STAGE: oneOf(["queued", "running", "scoring", "done", "failed"]),
+  ANALYZE_PARTIAL: shape({
+    category: oneOf(["bug", "maintainability", "style", "security"]),
+    text: str,
+  }),
+  ANALYZE_RESULT: shape({
+    phase: oneOf(["success"]),
+    review_id: nullable(num),
+    model: nullable(str),
+    cached: bool,
+    cached_at: nullable(str),
+    history_at: optional(str),
+    request_payload: anything,
+    raw_review_response: anything,
+    analyzer_result: analyzerResult,
+  }),
+  ANALYZE_ERROR: str,
+  ANALYZE_CANCELLED: str,
+  ANALYZE_QUEUED: shape({ message: str, pending: num }),
+  QUEUE_STATE: shape({ pending: num }),
+  MODEL_CATALOG: shape({
+    models: arrayOf(shape({ id: str, label: str, provider: str })),
+    source: oneOf(["server", "cache", "fallback"]),
+    fetched_at: nullable(str),
+  }),
+  MODEL_PREFERENCES: shape({
+    defaultModel: nullable(str),
+    favorites: arrayOf(str),
+    recent: arrayOf(str),
+  }),
+  COMPARE_UPDATE: shape({
+    entries: arrayOf(
+      shape({
+        model: str,
+        status: oneOf(["running", "done", "error", "cancelled"]),
+      })
+    ),
+    done: bool,
+  }),
+};
+
+function parseMessage<T>(
+  raw: unknown,
+  checks: Record<string, Check | null>
+): T {
+  if (typeOf(raw) !== "object") throw new SchemaError("message", "object", raw);
+  const message = raw as { type?: unknown; payload?: unknown };
+
+  str(message.type, "message.type");
+  const type = message.type as string;
+  if (!Object.prototype.hasOwnProperty.call(checks, type)) {
+    throw new SchemaError(
+      "message.type",
+      "알려진 메시지 타입",
+      type,
+      `"${type}"`
+    );
+  }
+
+  const check = checks[type];
+  if (check) {
+    check(message.payload, `${type}.payload`);
+  } else if (message.payload !== undefined) {
+    throw new SchemaError(
+      `${type}.payload`,
+      "없음(undefined)",
+      message.payload
+    );
+  }
+  return raw as T;
+}
+
+/**
+ * 웹뷰가 보낸 메시지 검증 (익스텐션에서 사용)
+ *  - 모르는 type / payload 불일치는 SchemaError
+ */
+export function parseWebviewMessage(raw: unknown): WebviewToExtensionMessage {
+  return parseMessage(raw, WEBVIEW_MESSAGE_CHECKS);
+}
+
+/**
+ * 익스텐션이 보낸 메시지 검증 (웹뷰에서 사용)
+ */
+export function parseExtensionMessage(raw: unknown): ExtensionToWebviewMessage {
+  return parseMessage(raw, EXTENSION_MESSAGE_CHECKS);
+}
+
+/**
+ * 저장된 웹뷰 상태 복원 — 형식이 다르면(예전 버전 등) null 로 버림
+ */
+export function parsePersistedWebviewState(
+  raw: unknown
+): PersistedWebviewState | null {
+  if (raw == null) return null;
+  try {
+    persistedState(raw, "state");
+    const state = raw as PersistedWebviewState;
+    // 검증을 통과한 결과도 정규화된 모양으로 (ResultPanel 이 그대로 렌더링)
+    return {
+      ...state,
+      resultData:
+        state.resultData &&
+        parseAnalyzerResult(state.resultData, "state.resultData"),
+    };
+  } catch (error) {
+    console.warn("[DKMV] discarding saved webview state:", error);
+    return null;
+  }
+}
+
+/**
+ * 검증 실패 → PROTOCOL_ERROR payload (받은 메시지의 type 을 알 수 있으면 포함)
+ */
+export function toProtocolError(
+  raw: unknown,
+  error: unknown
+): ProtocolErrorPayload {
+  const type = (raw as { type?: unknown } | null)?.type;
+  return {
+    messageType: typeof type === "string" ? type : null,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -0,0 +1,77 @@
+// src/shared/reviewCompare.ts
+// ⚖️ 여러 모델로 같은 코드를 리뷰한 결과 비교
+// 익스텐션(실행)과 웹뷰(표시)가 같이 쓰므로 vscode / react 는 import 하지 않는다.
+import type { AnalyzerResult, ReviewIssue } from "./reviewSchema";
+
+// 한 번에 비교할 수 있는 최대 모델 수
+export const MAX_COMPARE_MODELS = 4;
+
+// 이 줄 수 이내면 같은 이슈로 봄 (모델마다 가리키는 줄이 조금씩 다름)
+const LINE_TOLERANCE = 1;
+
+export type CompareStatus = "running" | "done" | "error" | "cancelled";
+
+// 모델 하나의 비교 결과
+export type CompareEntry = {
+  model: string;
+  status: CompareStatus;
+  result: AnalyzerResult | null;
+  reviewId: number | null;
+  cached: boolean;
+  latencyMs: number | null; // 요청 ~ 결과까지 (캐시 히트면 0 에 가까움)
+  error: string | null;
+};
+
+// 여러 모델이 지적한 "같은" 이슈 묶음
+export type IssueCluster = {
+  category: string;
+  line: number | null; // 대표 줄 (처음 지적한 모델 기준)
+  issues: { model: string; issue: ReviewIssue }[];
+  models: string[];
+};
+
+const sameCategory = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * 모델별 이슈 → 카테고리 + 줄(±1) 이 같은 것끼리 묶음
+ *  - 같은 모델의 이슈는 한 묶음에 하나만
+ *  - 많이 겹친 순 → 줄 순
+ */
+export function matchIssuesAcrossModels(
+  entries: { model: string; issues: ReviewIssue[] }[]
+): IssueCluster[] {
+  const clusters: IssueCluster[] = [];
+
+  for (const { model, issues } of entries) {
+    for (const issue of issues) {
+      const line = issue.issue_line_number ?? null;
+      const match = clusters.find(
+        (c) =>
+          !c.models.includes(model) &&
+          sameCategory(c.category, issue.issue_category) &&
+          (c.line == null || line == null
+            ? c.line === line
+            : Math.abs(c.line - line) <= LINE_TOLERANCE)
+      );
+
+      if (match) {
+        match.issues.push({ model, issue });
+        match.models.push(model);
+      } else {
+        clusters.push({
+          category: issue.issue_category,
+          line,
+          issues: [{ model, issue }],
+          models: [model],
+        });
+      }
+    }
+  }
+
+  return clusters.sort(
+    (a, b) =>
+      b.models.length - a.models.length ||
+      (a.line ?? Number.MAX_SAFE_INTEGER) - (b.line ?? Number.MAX_SAFE_INTEGER)
+  );
+}
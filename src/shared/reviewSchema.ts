@@ -0,0 +1,487 @@
+// src/shared/reviewSchema.ts
+// 리뷰 서버 응답 스키마 + 런타임 검증
+// 익스텐션(Node)과 웹뷰(React) 양쪽에서 같이 쓰므로
+// ⚠️ vscode / react 등 한쪽 런타임 전용 모듈은 import 하지 않는다.
+
+export type CategoryId = "bug" | "maintainability" | "style" | "security";
+
+export const CATEGORY_IDS: CategoryId[] = [
+  "bug",
+  "maintainability",
+  "style",
+  "security",
+];
+
+export type ScoreCategories = {
+  bug: number;
+  maintainability: number;
+  style: number;
+  security: number;
+};
+
+export type IssueSeverity = "HIGH" | "MEDIUM" | "LOW" | string;
+
+export type ReviewIssue = {
+  issue_id: string;
+  issue_category: string;
+  issue_severity: IssueSeverity;
+  issue_summary: string;
+  issue_details?: string;
+  issue_line_number?: number;
+  issue_column_number?: number;
+  // 수정 제안: (line, column) ~ (end_line, end_column) 을 suggested_fix 로 교체
+  issue_end_line_number?: number;
+  issue_end_column_number?: number;
+  issue_suggested_fix?: string;
+};
+
+// ✅ 익스텐션 → 웹뷰로 넘기는 단 하나의 결과 형태
+export type AnalyzerResult = {
+  quality_score: number; // 0 ~ 100
+  review_summary: string;
+  scores_by_category: ScoreCategories; // 각 0 ~ 100
+  review_details: Partial<Record<CategoryId, string>>; // 카테고리별 코멘트
+  issues: ReviewIssue[];
+};
+
+// 서버가 돌려주는 리뷰 진행 상태 (정규화 후)
+export type ReviewStatus = "pending" | "running" | "done" | "failed";
+
+// 스트리밍(SSE)으로 받는 실제 진행 단계
+export type ReviewStage = "queued" | "running" | "scoring" | "done" | "failed";
+
+// GET /v1/reviews/{id}/events 의 이벤트 (검증 + 정규화 후)
+export type ReviewStreamEvent =
+  | { type: "stage"; stage: ReviewStage; message: string | null }
+  // 카테고리 코멘트 조각: delta 면 이어붙이고, 아니면 지금까지의 전체 텍스트
+  | { type: "partial"; category: CategoryId; text: string; delta: boolean }
+  | { type: "error"; message: string };
+
+// GET /v1/users/me
+export type UserMe = {
+  id: number;
+  github_id?: string;
+  login: string;
+  name?: string | null;
+  avatar_url?: string | null;
+  created_at?: string;
+};
+
+// POST /v1/reviews/request 응답
+export type ReviewCreated = {
+  review_id: number;
+};
+
+// GET /v1/reviews/{id} 응답 (검증 + 정규화 후)
+export type ReviewDetail = {
+  review_id: number | null;
+  status: ReviewStatus;
+  error_message: string | null;
+  result: AnalyzerResult | null;
+};
+
+// GET /v1/reviews?user_id=..&limit=.. 응답 항목 (리뷰 기록 사이드바용)
+export type ReviewSummary = {
+  review_id: number;
+  status: ReviewStatus;
+  model: string | null;
+  language: string | null;
+  quality_score: number | null;
+  issue_count: number | null;
+  created_at: string | null;
+};
+
+/**
+ * 응답이 스키마와 다를 때: 어떤 필드가 잘못됐는지 path 로 알려줌
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(
+    path: string,
+    expected: string,
+    actual: unknown,
+    actualLabel?: string
+  ) {
+    const actualType = actualLabel ?? describeType(actual);
+    super(`'${path}' 필드는 ${expected} 이어야 하지만 ${actualType} 입니다.`);
+    this.name = "SchemaError";
+    this.path = path;
+    this.expected = expected;
+    this.actual = actualType;
+  }
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function describeType(v: unknown): string {
+  if (v === undefined) return "없음(undefined)";
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function expectObject(v: unknown, path: string): JsonRecord {
+  if (!v || typeof v !== "object" || Array.isArray(v)) {
+    throw new SchemaError(path, "object", v);
+  }
+  return v as JsonRecord;
+}
+
+function expectString(v: unknown, path: string): string {
+  if (typeof v !== "string") throw new SchemaError(path, "string", v);
+  return v;
+}
+
+function expectNumber(v: unknown, path: string): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new SchemaError(path, "number", v);
+  }
+  return v;
+}
+
+function optionalString(v: unknown, path: string): string | undefined {
+  return v == null ? undefined : expectString(v, path);
+}
+
+function optionalNumber(v: unknown, path: string): number | undefined {
+  return v == null ? undefined : expectNumber(v, path);
+}
+
+/**
+ * 0~1 비율로 오는 점수는 100점 만점으로 환산하고 0~100 으로 자름
+ */
+export function normalizeScore(score: number): number {
+  let s = score;
+  if (s >= 0 && s <= 1) s = s * 100;
+  return Math.round(Math.max(0, Math.min(100, s)));
+}
+
+const STATUS_ALIASES: Record<string, ReviewStatus> = {
+  pending: "pending",
+  queued: "pending",
+  created: "pending",
+  requested: "pending",
+  running: "running",
+  processing: "running",
+  in_progress: "running",
+  scoring: "running",
+  done: "done",
+  completed: "done",
+  complete: "done",
+  success: "done",
+  succeeded: "done",
+  failed: "failed",
+  error: "failed",
+};
+
+function parseStatus(raw: string, path: string): ReviewStatus {
+  const mapped = STATUS_ALIASES[raw.trim().toLowerCase()];
+  if (!mapped) {
+    throw new SchemaError(
+      path,
+      "pending | running | done | failed 중 하나",
+      raw,
+      `"${raw}"`
+    );
+  }
+  return mapped;
+}
+
+const STAGE_ALIASES: Record<string, ReviewStage> = {
+  pending: "queued",
+  queued: "queued",
+  created: "queued",
+  requested: "queued",
+  running: "running",
+  processing: "running",
+  in_progress: "running",
+  scoring: "scoring",
+  done: "done",
+  completed: "done",
+  complete: "done",
+  success: "done",
+  succeeded: "done",
+  failed: "failed",
+  error: "failed",
+};
+
+/**
+ * SSE 이벤트 하나 (event 이름 + data JSON) → ReviewStreamEvent
+ *  - 모르는 이벤트 / 카테고리는 null (무시) — 서버가 이벤트를 늘려도 깨지지 않도록
+ *  - 아는 이벤트인데 필드가 틀리면 SchemaError
+ */
+export function parseReviewStreamEvent(
+  event: string,
+  data: unknown
+): ReviewStreamEvent | null {
+  const name = event.trim().toLowerCase() || "message";
+
+  if (name === "stage" || name === "status") {
+    const o = expectObject(data, "data");
+    const raw = expectString(o.stage ?? o.status, "data.stage");
+    const stage = STAGE_ALIASES[raw.trim().toLowerCase()];
+    if (!stage) {
+      throw new SchemaError(
+        "data.stage",
+        "queued | running | scoring | done | failed 중 하나",
+        raw,
+        `"${raw}"`
+      );
+    }
+    return {
+      type: "stage",
+      stage,
+      message: optionalString(o.message, "data.message") ?? null,
+    };
+  }
+
+  if (name === "partial" || name === "comment") {
+    const o = expectObject(data, "data");
+    const category = expectString(o.category, "data.category").toLowerCase();
+    if (!(CATEGORY_IDS as string[]).includes(category)) return null;
+    const delta = o.delta != null;
+    return {
+      type: "partial",
+      category: category as CategoryId,
+      text: expectString(delta ? o.delta : o.text, "data.text"),
+      delta,
+    };
+  }
+
+  if (name === "error") {
+    const o = expectObject(data, "data");
+    return {
+      type: "error",
+      message:
+        optionalString(o.message ?? o.error_message, "data.message") ??
+        "서버에서 리뷰 생성에 실패했습니다.",
+    };
+  }
+
+  return null;
+}
+
+export function parseUserMe(json: unknown): UserMe {
+  const o = expectObject(json, "$");
+  return {
+    id: expectNumber(o.id, "id"),
+    login: expectString(o.login, "login"),
+    github_id:
+      o.github_id == null ? undefined : String(o.github_id as string | number),
+    name: optionalString(o.name, "name") ?? null,
+    avatar_url: optionalString(o.avatar_url, "avatar_url") ?? null,
+    created_at: optionalString(o.created_at, "created_at"),
+  };
+}
+
+export function parseReviewCreated(json: unknown): ReviewCreated {
+  const body = expectObject(expectObject(json, "$").body, "body");
+  return { review_id: expectNumber(body.review_id, "body.review_id") };
+}
+
+export function parseReviewIssue(v: unknown, path: string): ReviewIssue {
+  const o = expectObject(v, path);
+
+  const id = o.issue_id;
+  if (typeof id !== "string" && typeof id !== "number") {
+    throw new SchemaError(`${path}.issue_id`, "string | number", id);
+  }
+
+  return {
+    issue_id: String(id),
+    issue_category: expectString(o.issue_category, `${path}.issue_category`),
+    issue_severity: expectString(
+      o.issue_severity,
+      `${path}.issue_severity`
+    ).toUpperCase(),
+    issue_summary: expectString(o.issue_summary, `${path}.issue_summary`),
+    issue_details: optionalString(o.issue_details, `${path}.issue_details`),
+    issue_line_number: optionalNumber(
+      o.issue_line_number,
+      `${path}.issue_line_number`
+    ),
+    issue_column_number: optionalNumber(
+      o.issue_column_number,
+      `${path}.issue_column_number`
+    ),
+    issue_end_line_number: optionalNumber(
+      o.issue_end_line_number,
+      `${path}.issue_end_line_number`
+    ),
+    issue_end_column_number: optionalNumber(
+      o.issue_end_column_number,
+      `${path}.issue_end_column_number`
+    ),
+    // 예전 이름(suggested_fix)도 허용
+    issue_suggested_fix: optionalString(
+      o.issue_suggested_fix ?? o.suggested_fix,
+      `${path}.issue_suggested_fix`
+    ),
+  };
+}
+
+/**
+ * 리뷰 결과 검증 + 정규화
+ *  - review_details 는 카테고리별 코멘트 object 또는 이슈 배열
+ *  - issues 는 이슈 배열 (선택)
+ */
+export function parseAnalyzerResult(json: unknown, path = "$"): AnalyzerResult {
+  const o = expectObject(json, path);
+
+  const scoresRaw = expectObject(
+    o.scores_by_category,
+    `${path}.scores_by_category`
+  );
+  const scores = {} as ScoreCategories;
+  for (const key of CATEGORY_IDS) {
+    const v = optionalNumber(
+      scoresRaw[key],
+      `${path}.scores_by_category.${key}`
+    );
+    scores[key] = v == null ? 0 : normalizeScore(v);
+  }
+
+  const comments: Partial<Record<CategoryId, string>> = {};
+  const issues: ReviewIssue[] = [];
+
+  const details = o.review_details;
+  if (Array.isArray(details)) {
+    details.forEach((item, idx) =>
+      issues.push(parseReviewIssue(item, `${path}.review_details[${idx}]`))
+    );
+  } else if (details != null) {
+    const d = expectObject(details, `${path}.review_details`);
+    for (const key of CATEGORY_IDS) {
+      const text = optionalString(d[key], `${path}.review_details.${key}`);
+      if (text && text.trim()) comments[key] = text.trim();
+    }
+  }
+
+  if (o.issues != null) {
+    if (!Array.isArray(o.issues)) {
+      throw new SchemaError(`${path}.issues`, "array", o.issues);
+    }
+    o.issues.forEach((item, idx) =>
+      issues.push(parseReviewIssue(item, `${path}.issues[${idx}]`))
+    );
+  }
+
+  return {
+    quality_score: normalizeScore(
+      expectNumber(o.quality_score, `${path}.quality_score`)
+    ),
+    review_summary:
+      optionalString(o.review_summary, `${path}.review_summary`) ?? "",
+    scores_by_category: scores,
+    review_details: comments,
+    issues,
+  };
+}
+
+/**
+ * GET /v1/reviews/{id} 응답 검증
+ *  - 진행 상태는 body.status (없으면 결과 필드 유무로 판단 — 예전 서버 호환)
+ *  - 실패 사유는 meta.result.error_message
+ *  - done 일 때만 결과(body)를 AnalyzerResult 로 검증
+ */
+export function parseReviewDetail(json: unknown): ReviewDetail {
+  const root = expectObject(json, "$");
+  const body = expectObject(root.body, "body");
+
+  let status: ReviewStatus;
+  const rawStatus = optionalString(body.status, "body.status");
+  if (rawStatus != null) {
+    status = parseStatus(rawStatus, "body.status");
+  } else {
+    status = body.quality_score != null ? "done" : "pending";
+  }
+
+  let error_message: string | null = null;
+  if (root.meta != null) {
+    const meta = expectObject(root.meta, "meta");
+    if (meta.result != null) {
+      const result = expectObject(meta.result, "meta.result");
+      error_message =
+        optionalString(result.error_message, "meta.result.error_message") ??
+        null;
+    }
+  }
+
+  return {
+    review_id: optionalNumber(body.review_id, "body.review_id") ?? null,
+    status,
+    error_message,
+    result: status === "done" ? parseAnalyzerResult(body, "body") : null,
+  };
+}
+
+/**
+ * 리뷰 목록 항목 검증
+ *  - GET /v1/reviews/{id} 와 같은 {meta, body} 형태 또는 평평한 object 모두 허용
+ *  - 이슈 개수는 issue_count 또는 issues / review_details 배열 길이
+ */
+export function parseReviewSummary(v: unknown, path: string): ReviewSummary {
+  const o = expectObject(v, path);
+  const meta = o.meta != null ? expectObject(o.meta, `${path}.meta`) : {};
+  const body = o.body != null ? expectObject(o.body, `${path}.body`) : o;
+  const audit =
+    meta.audit != null ? expectObject(meta.audit, `${path}.meta.audit`) : {};
+
+  const reviewId = body.review_id ?? meta.review_id;
+  const score = optionalNumber(body.quality_score, `${path}.quality_score`);
+  const rawStatus = optionalString(body.status, `${path}.status`);
+
+  const issueList = Array.isArray(body.issues)
+    ? body.issues
+    : Array.isArray(body.review_details)
+    ? body.review_details
+    : null;
+
+  return {
+    review_id: expectNumber(reviewId, `${path}.review_id`),
+    status:
+      rawStatus != null
+        ? parseStatus(rawStatus, `${path}.status`)
+        : score != null
+        ? "done"
+        : "pending",
+    model: optionalString(meta.model ?? o.model, `${path}.model`) ?? null,
+    language:
+      optionalString(o.language ?? meta.language, `${path}.language`) ?? null,
+    quality_score: score == null ? null : normalizeScore(score),
+    issue_count:
+      optionalNumber(o.issue_count, `${path}.issue_count`) ??
+      issueList?.length ??
+      null,
+    created_at:
+      optionalString(audit.created_at ?? o.created_at, `${path}.created_at`) ??
+      null,
+  };
+}
+
+/**
+ * GET /v1/reviews 응답 검증 (배열 / {reviews} / {body: 배열 | {reviews}})
+ */
+export function parseReviewList(json: unknown): ReviewSummary[] {
+  let list: unknown = json;
+  let path = "$";
+
+  if (!Array.isArray(list)) {
+    const root = expectObject(list, path);
+    if (root.body != null) {
+      list = root.body;
+      path = "body";
+    }
+    if (!Array.isArray(list)) {
+      const o = expectObject(list, path);
+      list = o.reviews;
+      path = `${path}.reviews`;
+    }
+  }
+
+  if (!Array.isArray(list)) throw new SchemaError(path, "array", list);
+  return list.map((item, idx) => parseReviewSummary(item, `${path}[${idx}]`));
+}
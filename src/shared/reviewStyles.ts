@@ -0,0 +1,48 @@
+// src/shared/reviewStyles.ts
+// 점수 / 이슈 심각도별 라벨과 색상 (웹뷰 + 에디터 데코레이션 / 상태바 공통)
+
+import type { IssueSeverity } from "./reviewSchema";
+
+export const getScoreLabel = (
+  score: number
+): { label: string; color: string } => {
+  if (score >= 90) return { label: "Excellent", color: "#a3e635" };
+  if (score >= 70) return { label: "Good", color: "#4ade80" };
+  if (score >= 40) return { label: "Okay", color: "#fbbf24" };
+  if (score > 0) return { label: "Needs Work", color: "#f97373" };
+  return { label: "—", color: "#6b7280" };
+};
+
+export const getSeverityStyle = (severityRaw: IssueSeverity) => {
+  const severity = (severityRaw || "").toString().toUpperCase();
+  if (severity === "HIGH") {
+    return {
+      label: "HIGH",
+      bg: "rgba(127,29,29,0.5)",
+      border: "rgba(248,113,113,0.9)",
+      color: "#fecaca",
+    };
+  }
+  if (severity === "MEDIUM") {
+    return {
+      label: "MEDIUM",
+      bg: "rgba(120,53,15,0.5)",
+      border: "rgba(251,191,36,0.9)",
+      color: "#facc15",
+    };
+  }
+  if (severity === "LOW") {
+    return {
+      label: "LOW",
+      bg: "rgba(22,101,52,0.45)",
+      border: "rgba(52,211,153,0.9)",
+      color: "#6ee7b7",
+    };
+  }
+  return {
+    label: severity || "N/A",
+    bg: "rgba(30,64,175,0.4)",
+    border: "rgba(129,140,248,0.9)",
+    color: "#e5e7eb",
+  };
+};
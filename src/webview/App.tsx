@@ -3,24 +3,52 @@ import React, { useEffect, useState } from "react";
 
 import type {
   IncomingMessage,
+  OutgoingMessage,
   AnalyzerResult,
   TabId,
   ScoreCategories,
+  EndpointConfig,
+  ModelCatalog,
+  ModelPreferences,
+  CompareEntry,
+  ReviewStage,
+  PartialComments,
 } from "./types";
 import { EMPTY_CATEGORIES } from "./types";
 import { clampScore, extractScoresByCategory } from "./utils/scoring";
 import CodePanel from "./components/CodePanel";
 import ResultPanel from "./components/ResultPanel";
+import ComparePanel from "./components/ComparePanel";
+import { MAX_COMPARE_MODELS } from "../shared/reviewCompare";
+import { pickPreferredModel } from "../shared/modelOptions";
+import {
+  parseExtensionMessage,
+  parsePersistedWebviewState,
+  PROTOCOL_VERSION,
+  toProtocolError,
+} from "../shared/protocol";
+import type { PersistedWebviewState } from "../shared/protocol";
 
 declare global {
   interface Window {
     acquireVsCodeApi?: () => any;
     __DKMV_LOGO__?: string;
+    // 패널을 닫았다 다시 열 때 익스텐션이 넣어 주는 마지막 상태
+    __DKMV_STATE__?: unknown;
   }
 }
 
 const vscode = window.acquireVsCodeApi ? window.acquireVsCodeApi() : null;
 
+// 📨 익스텐션으로 메시지 전송 (src/shared/protocol.ts 타입으로 검사)
+const postToExtension = (message: OutgoingMessage) =>
+  vscode?.postMessage(message);
+
+// 💾 마지막 상태: 같은 패널(리로드 / 재시작) → 익스텐션이 넣어 준 스냅샷(닫았다 다시 연 패널)
+const savedState = parsePersistedWebviewState(
+  vscode?.getState() ?? window.__DKMV_STATE__
+);
+
 type AuthUser = {
   id: number;
   login: string;
@@ -28,42 +56,82 @@ type AuthUser = {
   avatar_url?: string | null;
 };
 
-type AuthStateMessage = {
-  type: "AUTH_STATE";
-  payload: {
-    isAuthenticated: boolean;
-    user: AuthUser | null;
-  };
-};
-
 export const App: React.FC = () => {
   const logoSrc = window.__DKMV_LOGO__ ?? "/logo.png";
 
-  const [code, setCode] = useState("");
-  const [filePath, setFilePath] = useState<string>("");
-  const [languageId, setLanguageId] = useState<string>("plaintext");
-  const [mode, setMode] = useState<"selection" | "document" | null>(null);
+  const [code, setCode] = useState(savedState?.code ?? "");
+  const [filePath, setFilePath] = useState<string>(savedState?.filePath ?? "");
+  const [languageId, setLanguageId] = useState<string>(
+    savedState?.languageId ?? "plaintext"
+  );
+  const [mode, setMode] = useState<"selection" | "document" | null>(
+    savedState?.mode ?? null
+  );
+  const [selectionStart, setSelectionStart] = useState<{
+    line: number;
+    character: number;
+  } | null>(savedState?.selectionStart ?? null);
 
   const [isLoading, setIsLoading] = useState(false);
 
-  const [activeTab, setActiveTab] = useState<TabId>("code");
+  const [activeTab, setActiveTab] = useState<TabId>(
+    savedState?.activeTab ?? "code"
+  );
 
   const [resultMessage, setResultMessage] = useState<string>(
-    "분석 결과가 이 영역에 표시됩니다."
+    savedState?.resultMessage ?? "분석 결과가 이 영역에 표시됩니다."
+  );
+  const [resultData, setResultData] = useState<AnalyzerResult | null>(
+    savedState?.resultData ?? null
   );
-  const [resultData, setResultData] = useState<AnalyzerResult | null>(null);
 
   const [rawResponseText, setRawResponseText] = useState<string | null>(null);
 
+  // 💾 로컬 캐시에서 온 결과면 캐시 시각 (다시 실행 버튼 표시용)
+  const [cachedAt, setCachedAt] = useState<string | null>(
+    savedState?.cachedAt ?? null
+  );
+
+  // 📝 리포트 내보내기용 결과 정보
+  const [resultMeta, setResultMeta] = useState<{
+    reviewId: number | null;
+    model: string | null;
+    reviewedAt: string | null;
+  } | null>(savedState?.resultMeta ?? null);
+
   const [codeHighlight, setCodeHighlight] = useState(false);
   const [resultHighlight, setResultHighlight] = useState(false);
 
   const [hasNewResult, setHasNewResult] = useState(false);
-  const [isError, setIsError] = useState(false);
+  const [isError, setIsError] = useState(savedState?.isError ?? false);
 
-  const [selectedModel, setSelectedModel] = useState<string>("");
+  const [selectedModel, setSelectedModel] = useState<string>(
+    savedState?.selectedModel ?? ""
+  );
+  // 🤖 익스텐션이 내려주는 모델 목록 (받기 전에는 null)
+  const [modelCatalog, setModelCatalog] = useState<ModelCatalog | null>(null);
+  // ⭐ 기본 모델 / 즐겨찾기 / 최근 사용 (익스텐션 globalState)
+  const [modelPreferences, setModelPreferences] =
+    useState<ModelPreferences | null>(null);
+
+  // ⚖️ 모델 비교 모드 (여러 모델로 같은 코드를 동시에 리뷰)
+  const [compareMode, setCompareMode] = useState(
+    savedState?.compareMode ?? false
+  );
+  const [compareModels, setCompareModels] = useState<string[]>(
+    savedState?.compareModels ?? []
+  );
+  const [compareEntries, setCompareEntries] = useState<CompareEntry[] | null>(
+    savedState?.compareEntries ?? null
+  );
   const [modelError, setModelError] = useState(false);
 
+  // 📡 진행 중인 리뷰의 실제 단계 + 먼저 도착한 카테고리 코멘트
+  const [analyzeStage, setAnalyzeStage] = useState<ReviewStage | null>(null);
+  const [partialComments, setPartialComments] = useState<PartialComments>({});
+  // 📮 오프라인 대기열에 남은 리뷰 수
+  const [pendingReviews, setPendingReviews] = useState(0);
+
   const [displayOverallScore, setDisplayOverallScore] = useState(0);
   const [displayCategoryScores, setDisplayCategoryScores] =
     useState<ScoreCategories>(EMPTY_CATEGORIES);
@@ -77,6 +145,11 @@ export const App: React.FC = () => {
   const [isSettingToken, setIsSettingToken] = useState(false);
   const [tokenError, setTokenError] = useState<string | null>(null);
 
+  // 🌐 익스텐션 설정(dkmv.*)에서 내려오는 서버 프로필/URL
+  const [endpointConfig, setEndpointConfig] = useState<EndpointConfig | null>(
+    null
+  );
+
   const flashCodeHighlight = () => {
     setCodeHighlight(true);
     setTimeout(() => setCodeHighlight(false), 350);
@@ -89,11 +162,40 @@ export const App: React.FC = () => {
 
   // VSCode → 웹뷰 메시지 핸들링
   useEffect(() => {
-    const handler = (
-      event: MessageEvent<IncomingMessage | AuthStateMessage | any>
-    ) => {
-      const message = event.data;
-      if (!message) return;
+    const handler = (event: MessageEvent<unknown>) => {
+      // 📨 프로토콜 검증: 모르는 / 잘못된 메시지는 익스텐션에 알리고 무시
+      let message: IncomingMessage;
+      try {
+        message = parseExtensionMessage(event.data);
+      } catch (error) {
+        const payload = toProtocolError(event.data, error);
+        console.warn("[DKMV] invalid message from extension:", payload);
+        if (payload.messageType !== "PROTOCOL_ERROR") {
+          postToExtension({ type: "PROTOCOL_ERROR", payload });
+        }
+        return;
+      }
+
+      // 🤝 익스텐션과 프로토콜 버전이 다르면 (웹뷰 번들이 오래된 경우 등) 안내
+      if (message.type === "HELLO") {
+        const { protocolVersion } = message.payload;
+        if (protocolVersion !== PROTOCOL_VERSION) {
+          setResultMessage(
+            `익스텐션(v${protocolVersion})과 웹뷰(v${PROTOCOL_VERSION})의 메시지 프로토콜 버전이 다릅니다. 창을 다시 로드해 주세요.`
+          );
+          setIsError(true);
+        }
+        return;
+      }
+
+      if (message.type === "PROTOCOL_ERROR") {
+        console.warn(
+          "[DKMV] extension rejected a message:",
+          message.payload.messageType,
+          message.payload.error
+        );
+        return;
+      }
 
       // 🔐 로그인 상태 동기화
       if (message.type === "AUTH_STATE") {
@@ -118,6 +220,44 @@ export const App: React.FC = () => {
         return;
       }
 
+      if (message.type === "CONFIG_STATE") {
+        setEndpointConfig(message.payload ?? null);
+        return;
+      }
+
+      if (message.type === "MODEL_CATALOG") {
+        setModelCatalog(message.payload ?? null);
+        return;
+      }
+
+      if (message.type === "MODEL_PREFERENCES") {
+        const prefs: ModelPreferences | null = message.payload ?? null;
+        setModelPreferences(prefs);
+        // 아직 고른 모델이 없으면 기본 모델 → 최근 사용 모델로 미리 선택
+        setSelectedModel(
+          (current) => current || (prefs && pickPreferredModel(prefs)) || ""
+        );
+        return;
+      }
+
+      if (message.type === "COMPARE_UPDATE") {
+        const entries: CompareEntry[] = message.payload?.entries ?? [];
+        const done = !!message.payload?.done;
+        const finished = entries.filter((e) => e.status !== "running").length;
+
+        setCompareEntries(entries);
+        setIsLoading(!done);
+        setIsError(false);
+        setActiveTab("compare");
+        setResultMessage(
+          done
+            ? `모델 비교가 완료되었습니다. (${entries.length}개 모델)`
+            : `모델 비교 중입니다... (${finished}/${entries.length})`
+        );
+        if (done) flashResultHighlight();
+        return;
+      }
+
       if (message.type === "TOKEN_ERROR") {
         setIsSettingToken(false);
         setTokenError(
@@ -129,16 +269,19 @@ export const App: React.FC = () => {
       }
 
       if (message.type === "NEW_CODE") {
-        const { code, filePath, languageId, mode } = message.payload;
+        const { code, filePath, languageId, mode, selectionStart } =
+          message.payload;
 
         setCode(code);
         setFilePath(filePath);
         setLanguageId(languageId);
         setMode(mode);
+        setSelectionStart(selectionStart ?? null);
 
         setIsLoading(false);
         setResultData(null);
         setRawResponseText(null);
+        setCachedAt(null);
         setResultMessage(
           "코드를 받았습니다. 모델을 선택한 뒤 [분석] 버튼 또는 Ctrl+Enter로 리뷰를 시작하세요."
         );
@@ -157,10 +300,24 @@ export const App: React.FC = () => {
         setIsError(false);
       }
 
+      if (message.type === "ANALYZE_STAGE") {
+        setAnalyzeStage(message.payload);
+        return;
+      }
+
+      if (message.type === "ANALYZE_PARTIAL") {
+        const { category, text } = message.payload;
+        setPartialComments((prev) => ({ ...prev, [category]: text }));
+        return;
+      }
+
       if (message.type === "ANALYZE_ERROR") {
         setIsLoading(false);
+        setAnalyzeStage(null);
+        setPartialComments({});
         setResultData(null);
         setRawResponseText(null);
+        setCachedAt(null);
         setResultMessage(`오류 발생: ${message.payload}`);
         setDisplayOverallScore(0);
         setDisplayCategoryScores(EMPTY_CATEGORIES);
@@ -169,40 +326,83 @@ export const App: React.FC = () => {
         setHasNewResult(false);
       }
 
+      if (message.type === "QUEUE_STATE") {
+        setPendingReviews(message.payload?.pending ?? 0);
+        return;
+      }
+
+      if (message.type === "ANALYZE_QUEUED") {
+        setIsLoading(false);
+        setAnalyzeStage(null);
+        setPartialComments({});
+        setPendingReviews(message.payload.pending);
+        setResultMessage(message.payload.message);
+        setIsError(false);
+        setHasNewResult(false);
+        return;
+      }
+
+      if (message.type === "ANALYZE_CANCELLED") {
+        setIsLoading(false);
+        setAnalyzeStage(null);
+        setPartialComments({});
+        setResultMessage(message.payload || "리뷰 요청을 취소했습니다.");
+        setIsError(false);
+        setHasNewResult(false);
+        return;
+      }
+
       if (message.type === "ANALYZE_RESULT") {
         setIsLoading(false);
+        setAnalyzeStage(null);
+        setPartialComments({});
 
-        let parsed: any = message.payload;
+        const parsed = message.payload;
         let rawText: string | null = null;
-
-        if (typeof message.payload === "string") {
-          rawText = message.payload;
-          try {
-            parsed = JSON.parse(message.payload);
-          } catch (e) {
-            console.warn("[DKMV] 응답 JSON 파싱 실패:", e);
-            setResultData(null);
-            setRawResponseText(rawText);
-            setResultMessage("응답은 왔지만 JSON 파싱에 실패했습니다.");
-            setIsError(true);
-            return;
-          }
-        } else {
-          try {
-            rawText = JSON.stringify(message.payload, null, 2);
-          } catch {
-            rawText = null;
-          }
+        try {
+          rawText = JSON.stringify(parsed, null, 2);
+        } catch {
+          rawText = null;
         }
 
-        const inner =
-          (parsed && (parsed as any).analyzer_result) ||
-          (parsed && (parsed as any).body?.review) ||
-          parsed;
+        // 익스텐션이 스키마 검증 후 넘겨주는 AnalyzerResult
+        const inner: AnalyzerResult | null = parsed?.analyzer_result ?? null;
+
+        const fromCache: string | null = parsed?.cached
+          ? parsed.cached_at ?? ""
+          : null;
 
         setRawResponseText(rawText);
-        setResultData(inner as AnalyzerResult);
-        setResultMessage("분석이 완료되었습니다.");
+        setResultData(inner);
+        setCachedAt(fromCache);
+        setResultMeta({
+          reviewId: parsed?.review_id ?? null,
+          model: parsed?.model ?? null,
+          reviewedAt:
+            parsed?.history_at || parsed?.cached_at || new Date().toISOString(),
+        });
+
+        // 사이드바 리뷰 기록에서 다시 연 결과
+        const fromHistory: string | null =
+          typeof parsed?.history_at === "string" ? parsed.history_at : null;
+        const historyInfo = [
+          parsed?.review_id != null ? `review #${parsed.review_id}` : null,
+          fromHistory ? new Date(fromHistory).toLocaleString() : null,
+        ]
+          .filter(Boolean)
+          .join(", ");
+
+        setResultMessage(
+          fromHistory != null
+            ? `리뷰 기록에서 불러온 결과입니다.${
+                historyInfo ? ` (${historyInfo})` : ""
+              }`
+            : fromCache != null
+            ? `변경 없는 코드라 저장된 리뷰를 표시합니다.${
+                fromCache ? ` (${new Date(fromCache).toLocaleString()})` : ""
+              }`
+            : "분석이 완료되었습니다."
+        );
         setActiveTab("result");
         flashResultHighlight();
         setHasNewResult(true);
@@ -212,15 +412,17 @@ export const App: React.FC = () => {
 
     window.addEventListener("message", handler);
 
-    // 최초 진입 시 현재 auth 상태 요청
-    if (vscode) {
-      vscode.postMessage({ type: "GET_AUTH_STATE" });
-    }
+    // 최초 진입 시 프로토콜 버전 확인 + 현재 auth 상태 요청
+    postToExtension({
+      type: "HELLO",
+      payload: { protocolVersion: PROTOCOL_VERSION },
+    });
+    postToExtension({ type: "GET_AUTH_STATE" });
 
     return () => window.removeEventListener("message", handler);
   }, []);
 
-  const handleAnalyze = () => {
+  const handleAnalyze = (options?: { force?: boolean }) => {
     if (!isAuthenticated) {
       setResultMessage(
         "VS Code용 토큰을 먼저 설정해야 합니다. 상단 안내를 확인해주세요."
@@ -248,6 +450,11 @@ export const App: React.FC = () => {
       return;
     }
 
+    if (compareMode) {
+      handleCompare(options);
+      return;
+    }
+
     if (!selectedModel) {
       setResultMessage("사용할 모델을 먼저 선택해 주세요.");
       setResultData(null);
@@ -272,22 +479,99 @@ export const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    setCachedAt(null);
+    setAnalyzeStage(null);
+    setPartialComments({});
     setResultMessage("리뷰 요청을 준비 중입니다...");
     setIsError(false);
     setHasNewResult(false);
     setActiveTab("result");
 
-    vscode.postMessage({
+    postToExtension({
       type: "REQUEST_ANALYZE",
       payload: {
         code,
         filePath,
         languageId,
         model: selectedModel,
+        selectionStart,
+        force: !!options?.force,
       },
     });
   };
 
+  // ⚖️ 비교 모드에서 [분석]: 고른 모델 전부에 같은 코드 요청
+  const handleCompare = (options?: { force?: boolean }) => {
+    if (compareModels.length < 2) {
+      setResultMessage(
+        `비교할 모델을 2 ~ ${MAX_COMPARE_MODELS}개 선택해 주세요.`
+      );
+      setIsError(true);
+      setModelError(true);
+      return;
+    }
+    if (!vscode) {
+      setResultMessage("VS Code API를 사용할 수 없습니다.");
+      setIsError(true);
+      return;
+    }
+
+    setIsLoading(true);
+    setCachedAt(null);
+    setCompareEntries(null);
+    setResultMessage("모델 비교 요청을 준비 중입니다...");
+    setIsError(false);
+    setActiveTab("compare");
+
+    postToExtension({
+      type: "REQUEST_COMPARE",
+      payload: {
+        code,
+        filePath,
+        languageId,
+        models: compareModels,
+        force: !!options?.force,
+      },
+    });
+  };
+
+  const handleToggleCompareModel = (id: string) => {
+    setCompareModels((current) =>
+      current.includes(id)
+        ? current.filter((m) => m !== id)
+        : current.length >= MAX_COMPARE_MODELS
+        ? current
+        : [...current, id]
+    );
+    setModelError(false);
+    setIsError(false);
+  };
+
+  const handleExportReport = (format: "markdown" | "html" | "sarif") => {
+    if (!vscode || !resultData) return;
+    postToExtension({
+      type: "EXPORT_REPORT",
+      payload: {
+        format,
+        meta: {
+          filePath: filePath || null,
+          languageId,
+          model: resultMeta?.model ?? (selectedModel || null),
+          reviewId: resultMeta?.reviewId ?? null,
+          reviewedAt: resultMeta?.reviewedAt ?? null,
+          selectionStart,
+        },
+        analyzer_result: resultData,
+      },
+    });
+  };
+
+  const handleCancelAnalyze = () => {
+    if (!vscode || !isLoading) return;
+    setResultMessage("리뷰 요청을 취소하는 중입니다...");
+    postToExtension({ type: "CANCEL_ANALYZE" });
+  };
+
   const handleCodeKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
       e.preventDefault();
@@ -303,13 +587,11 @@ export const App: React.FC = () => {
   };
 
   const handleOpenTokenPage = () => {
-    const url = "https://web-dkmv.vercel.app/";
+    const url = endpointConfig?.frontendUrl;
     if (vscode) {
-      vscode.postMessage({
-        type: "OPEN_TOKEN_PAGE",
-        payload: { url },
-      });
-    } else {
+      // 실제 URL은 익스텐션이 현재 프로필 기준으로 결정
+      postToExtension({ type: "OPEN_TOKEN_PAGE" });
+    } else if (url) {
       window.open(url, "_blank", "noopener,noreferrer");
     }
   };
@@ -322,12 +604,12 @@ export const App: React.FC = () => {
     }
     setTokenError(null);
     setIsSettingToken(true);
-    vscode.postMessage({ type: "SET_TOKEN", payload: { token: trimmed } });
+    postToExtension({ type: "SET_TOKEN", payload: { token: trimmed } });
   };
 
   const handleLogoutClick = () => {
-    // 실제 백엔드 로그아웃이 아니라, 웹뷰 상태만 초기화해서
-    // 다시 토큰 인증 랜딩 화면으로 돌아가도록 처리
+    // 웹뷰 상태를 먼저 초기화해서 토큰 인증 랜딩 화면으로 돌아가고,
+    // 익스텐션에 LOGOUT 을 보내 저장된 토큰/유저 정보도 삭제
     setIsAuthenticated(false);
     setAuthUser(null);
     setTokenInput("");
@@ -346,10 +628,55 @@ export const App: React.FC = () => {
     setHasNewResult(false);
 
     if (vscode) {
-      vscode.postMessage({ type: "LOGOUT" });
+      postToExtension({ type: "LOGOUT" });
     }
   };
 
+  // 💾 상태 저장: 같은 패널은 setState, 닫았다 다시 여는 경우를 위해 익스텐션에도 (입력 중엔 묶어서)
+  useEffect(() => {
+    const snapshot: PersistedWebviewState = {
+      version: 1,
+      code,
+      filePath,
+      languageId,
+      mode,
+      selectionStart,
+      selectedModel,
+      activeTab,
+      resultMessage,
+      isError,
+      resultData,
+      resultMeta,
+      cachedAt,
+      compareMode,
+      compareModels,
+      compareEntries,
+    };
+    vscode?.setState(snapshot);
+
+    const timer = setTimeout(
+      () => postToExtension({ type: "SAVE_STATE", payload: snapshot }),
+      500
+    );
+    return () => clearTimeout(timer);
+  }, [
+    code,
+    filePath,
+    languageId,
+    mode,
+    selectionStart,
+    selectedModel,
+    activeTab,
+    resultMessage,
+    isError,
+    resultData,
+    resultMeta,
+    cachedAt,
+    compareMode,
+    compareModels,
+    compareEntries,
+  ]);
+
   // 결과 데이터 → 점수 애니메이션
   useEffect(() => {
     if (!resultData) {
@@ -358,13 +685,7 @@ export const App: React.FC = () => {
       return;
     }
 
-    const rawOverall =
-      (resultData as any).quality_score ??
-      (resultData as any).qualityScore ??
-      (resultData as any).global_score ??
-      0;
-
-    const targetOverall = clampScore(rawOverall);
+    const targetOverall = clampScore(resultData.quality_score);
     const targetCategories = extractScoresByCategory(resultData);
 
     const duration = 500;
@@ -551,6 +872,39 @@ export const App: React.FC = () => {
               flexShrink: 0,
             }}
           >
+            {/* prod 이외의 서버 프로필 사용 중이면 표시 */}
+            {endpointConfig && endpointConfig.profile !== "prod" && (
+              <span
+                title={endpointConfig.reviewApiBase}
+                style={{
+                  fontSize: 10,
+                  padding: "2px 8px",
+                  borderRadius: 999,
+                  border: "1px solid rgba(251,191,36,0.9)",
+                  color: "#facc15",
+                }}
+              >
+                {endpointConfig.profile}
+              </span>
+            )}
+
+            {/* 📮 오프라인 대기열 — 연결되면 자동으로 다시 요청 */}
+            {pendingReviews > 0 && (
+              <span
+                title="서버에 연결되면 자동으로 다시 요청합니다."
+                style={{
+                  fontSize: 10,
+                  padding: "2px 8px",
+                  borderRadius: 999,
+                  border: "1px solid rgba(148,163,184,0.9)",
+                  color: "#cbd5e1",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                대기 중 {pendingReviews}건
+              </span>
+            )}
+
             {/* 로그인 상태 표시 + 로그아웃 액션 */}
             {isAuthenticated && authUser && (
               <button
@@ -838,8 +1192,17 @@ export const App: React.FC = () => {
                   gap: 4,
                 }}
               >
-                {(["code", "result"] as TabId[]).map((id) => {
-                  const label = id === "code" ? "입력 코드" : "분석 결과";
+                {(
+                  (compareMode || compareEntries
+                    ? ["code", "result", "compare"]
+                    : ["code", "result"]) as TabId[]
+                ).map((id) => {
+                  const label =
+                    id === "code"
+                      ? "입력 코드"
+                      : id === "compare"
+                      ? "모델 비교"
+                      : "분석 결과";
                   const isActive = activeTab === id;
                   const showBadge = id === "result" && hasNewResult;
                   const disabled = isLoading && !isActive;
@@ -893,25 +1256,49 @@ export const App: React.FC = () => {
                 })}
               </div>
 
-              <button
-                onClick={handleAnalyze}
-                style={{
-                  padding: "6px 14px",
-                  fontSize: 12,
-                  borderRadius: 8,
-                  border: "1px solid rgba(129,140,248,0.9)",
-                  background:
-                    "linear-gradient(90deg,rgba(129,140,248,1),rgba(168,85,247,0.95))",
-                  color: "#020617",
-                  cursor: isLoading ? "default" : "pointer",
-                  opacity: isLoading ? 0.85 : 1,
-                  fontWeight: 500,
-                  whiteSpace: "nowrap",
-                }}
-                disabled={isLoading}
-              >
-                {isLoading ? "분석 중..." : "분석 (Ctrl+Enter)"}
-              </button>
+              <div style={{ display: "flex", gap: 6 }}>
+                {isLoading && (
+                  <button
+                    type="button"
+                    onClick={handleCancelAnalyze}
+                    style={{
+                      padding: "6px 12px",
+                      fontSize: 12,
+                      borderRadius: 8,
+                      border: "1px solid rgba(248,113,113,0.9)",
+                      background: "transparent",
+                      color: "#fca5a5",
+                      cursor: "pointer",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    취소
+                  </button>
+                )}
+                <button
+                  onClick={() => handleAnalyze()}
+                  style={{
+                    padding: "6px 14px",
+                    fontSize: 12,
+                    borderRadius: 8,
+                    border: "1px solid rgba(129,140,248,0.9)",
+                    background:
+                      "linear-gradient(90deg,rgba(129,140,248,1),rgba(168,85,247,0.95))",
+                    color: "#020617",
+                    cursor: isLoading ? "default" : "pointer",
+                    opacity: isLoading ? 0.85 : 1,
+                    fontWeight: 500,
+                    whiteSpace: "nowrap",
+                  }}
+                  disabled={isLoading}
+                >
+                  {isLoading
+                    ? "분석 중..."
+                    : compareMode
+                    ? `비교 분석 ${compareModels.length}개 (Ctrl+Enter)`
+                    : "분석 (Ctrl+Enter)"}
+                </button>
+              </div>
             </div>
 
             {/* 상태 메시지 바 */}
@@ -929,8 +1316,28 @@ export const App: React.FC = () => {
                 color: statusColor,
               }}
             >
-              <span style={{ fontWeight: 500 }}>{resultMessage}</span>
-              {selectedModel && (
+              <span style={{ fontWeight: 500 }}>
+                {resultMessage}
+                {cachedAt != null && !isLoading && (
+                  <button
+                    type="button"
+                    onClick={() => handleAnalyze({ force: true })}
+                    style={{
+                      marginLeft: 8,
+                      fontSize: 10,
+                      padding: "2px 8px",
+                      borderRadius: 999,
+                      border: "1px solid rgba(129,140,248,0.9)",
+                      backgroundColor: "rgba(15,23,42,0.9)",
+                      color: "#c4b5fd",
+                      cursor: "pointer",
+                    }}
+                  >
+                    그래도 다시 실행
+                  </button>
+                )}
+              </span>
+              {(compareMode ? compareModels.length > 0 : selectedModel) && (
                 <span
                   style={{
                     fontSize: 10,
@@ -938,7 +1345,9 @@ export const App: React.FC = () => {
                     opacity: 0.9,
                   }}
                 >
-                  사용 모델: {selectedModel}
+                  {compareMode
+                    ? `비교 모델: ${compareModels.join(", ")}`
+                    : `사용 모델: ${selectedModel}`}
                 </span>
               )}
             </div>
@@ -960,6 +1369,18 @@ export const App: React.FC = () => {
                   filePath={filePath}
                   codeHighlight={codeHighlight}
                   selectedModel={selectedModel}
+                  modelCatalog={modelCatalog}
+                  modelPreferences={modelPreferences}
+                  onToggleFavoriteModel={(id) =>
+                    postToExtension({
+                      type: "TOGGLE_FAVORITE_MODEL",
+                      payload: { modelId: id },
+                    })
+                  }
+                  compareMode={compareMode}
+                  compareModels={compareModels}
+                  onToggleCompareMode={() => setCompareMode((v) => !v)}
+                  onToggleCompareModel={handleToggleCompareModel}
                   onChangeModel={(id) => {
                     setSelectedModel(id);
                     setModelError(false);
@@ -974,12 +1395,19 @@ export const App: React.FC = () => {
                   resultData={resultData}
                   isError={isError}
                   isLoading={isLoading}
+                  analyzeStage={analyzeStage}
+                  partialComments={partialComments}
                   resultHighlight={resultHighlight}
                   displayOverallScore={displayOverallScore}
                   displayCategoryScores={displayCategoryScores}
                   logoSrc={logoSrc}
+                  onExportReport={handleExportReport}
                 />
               )}
+
+              {activeTab === "compare" && (
+                <ComparePanel entries={compareEntries} isLoading={isLoading} />
+              )}
             </div>
           </>
         )}
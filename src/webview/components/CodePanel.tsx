@@ -2,6 +2,7 @@
 
 import React from "react";
 import ModelSelector from "./ModelSelector";
+import type { ModelCatalog, ModelPreferences } from "../types";
 
 type Mode = "selection" | "document" | null;
 
@@ -13,6 +14,13 @@ type Props = {
   filePath: string;
   codeHighlight: boolean;
   selectedModel: string;
+  modelCatalog: ModelCatalog | null;
+  modelPreferences: ModelPreferences | null;
+  onToggleFavoriteModel: (id: string) => void;
+  compareMode: boolean;
+  compareModels: string[];
+  onToggleCompareMode: () => void;
+  onToggleCompareModel: (id: string) => void;
   onChangeModel: (id: string) => void;
   modelError: boolean;
 };
@@ -25,6 +33,13 @@ const CodePanel: React.FC<Props> = ({
   filePath,
   codeHighlight,
   selectedModel,
+  modelCatalog,
+  modelPreferences,
+  onToggleFavoriteModel,
+  compareMode,
+  compareModels,
+  onToggleCompareMode,
+  onToggleCompareModel,
   onChangeModel,
   modelError,
 }) => {
@@ -97,6 +112,13 @@ const CodePanel: React.FC<Props> = ({
         {/* 👉 모델 검색/선택 UI (입력 코드 탭 내부) */}
         <ModelSelector
           value={selectedModel}
+          catalog={modelCatalog}
+          preferences={modelPreferences}
+          onToggleFavorite={onToggleFavoriteModel}
+          compareMode={compareMode}
+          compareModels={compareModels}
+          onToggleCompareMode={onToggleCompareMode}
+          onToggleCompareModel={onToggleCompareModel}
           onChange={onChangeModel}
           hasError={modelError}
         />
@@ -0,0 +1,268 @@
+// src/webview/components/ComparePanel.tsx
+
+import React, { useMemo } from "react";
+import SectionHeader from "./SectionHeader";
+import type { CategoryId, CompareEntry } from "../types";
+import { getScoreLabel, getSeverityStyle } from "../utils/scoring";
+import { matchIssuesAcrossModels } from "../../shared/reviewCompare";
+
+type Props = {
+  entries: CompareEntry[] | null;
+  isLoading: boolean;
+};
+
+const CATEGORY_ROWS: { key: CategoryId; label: string }[] = [
+  { key: "bug", label: "Bug" },
+  { key: "maintainability", label: "Maintainability" },
+  { key: "style", label: "Style" },
+  { key: "security", label: "Security" },
+];
+
+const STATUS_TEXT: Record<CompareEntry["status"], string> = {
+  running: "리뷰 중...",
+  done: "완료",
+  error: "실패",
+  cancelled: "취소됨",
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderBottom: "1px solid rgba(31,41,55,0.9)",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+const headCellStyle: React.CSSProperties = {
+  ...cellStyle,
+  textAlign: "left",
+  color: "#9ca3af",
+  fontWeight: 500,
+};
+
+// 모델 ID 는 길어서 provider 를 뗀 이름으로 표시
+const shortModel = (model: string) => model.split("/").slice(-1)[0];
+
+const formatLatency = (entry: CompareEntry) => {
+  if (entry.latencyMs == null) return "-";
+  if (entry.cached) return "캐시";
+  return entry.latencyMs >= 1000
+    ? `${(entry.latencyMs / 1000).toFixed(1)}s`
+    : `${entry.latencyMs}ms`;
+};
+
+const ScoreCell: React.FC<{ score: number | null }> = ({ score }) =>
+  score == null ? (
+    <span style={{ color: "#4b5563" }}>-</span>
+  ) : (
+    <span style={{ color: getScoreLabel(score).color, fontWeight: 600 }}>
+      {score}
+    </span>
+  );
+
+const ComparePanel: React.FC<Props> = ({ entries, isLoading }) => {
+  const done = useMemo(
+    () => (entries ?? []).filter((e) => e.status === "done" && e.result),
+    [entries]
+  );
+
+  // 모델 간 같은 이슈 (카테고리 + 줄) 묶음 — 많이 겹친 순
+  const clusters = useMemo(
+    () =>
+      matchIssuesAcrossModels(
+        done.map((e) => ({ model: e.model, issues: e.result!.issues }))
+      ),
+    [done]
+  );
+
+  if (!entries || entries.length === 0) {
+    return (
+      <div style={{ padding: 16, fontSize: 12, color: "#9ca3af" }}>
+        입력 코드 탭에서 "모델 비교"를 켜고 2개 이상 모델을 고른 뒤 분석하면
+        결과를 나란히 비교할 수 있습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        height: "100%",
+        overflowY: "auto",
+        padding: 10,
+        boxSizing: "border-box",
+        display: "flex",
+        flexDirection: "column",
+        gap: 14,
+        opacity: isLoading && done.length === 0 ? 0.7 : 1,
+      }}
+    >
+      {/* 모델별 점수표 */}
+      <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+        <SectionHeader label="모델별 점수" />
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{
+              borderCollapse: "collapse",
+              fontSize: 11,
+              color: "#e5e7eb",
+              width: "100%",
+            }}
+          >
+            <thead>
+              <tr>
+                <th style={headCellStyle} />
+                {entries.map((e) => (
+                  <th
+                    key={e.model}
+                    title={e.model}
+                    style={{ ...cellStyle, color: "#c4b5fd", fontWeight: 600 }}
+                  >
+                    {shortModel(e.model)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={headCellStyle}>상태</td>
+                {entries.map((e) => (
+                  <td
+                    key={e.model}
+                    title={e.error ?? undefined}
+                    style={{
+                      ...cellStyle,
+                      color:
+                        e.status === "error"
+                          ? "#f87171"
+                          : e.status === "done"
+                          ? "#9ca3af"
+                          : "#fbbf24",
+                    }}
+                  >
+                    {STATUS_TEXT[e.status]}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td style={{ ...headCellStyle, color: "#e5e7eb" }}>총점</td>
+                {entries.map((e) => (
+                  <td key={e.model} style={{ ...cellStyle, fontSize: 14 }}>
+                    <ScoreCell score={e.result?.quality_score ?? null} />
+                  </td>
+                ))}
+              </tr>
+              {CATEGORY_ROWS.map((row) => (
+                <tr key={row.key}>
+                  <td style={headCellStyle}>{row.label}</td>
+                  {entries.map((e) => (
+                    <td key={e.model} style={cellStyle}>
+                      <ScoreCell
+                        score={e.result?.scores_by_category[row.key] ?? null}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td style={headCellStyle}>이슈 수</td>
+                {entries.map((e) => (
+                  <td key={e.model} style={cellStyle}>
+                    {e.result ? e.result.issues.length : "-"}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td style={headCellStyle}>응답 시간</td>
+                {entries.map((e) => (
+                  <td key={e.model} style={{ ...cellStyle, color: "#9ca3af" }}>
+                    {formatLatency(e)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 모델 간 일치하는 이슈 */}
+      <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+        <SectionHeader label="모델 간 이슈 비교" />
+        {clusters.length === 0 ? (
+          <span style={{ fontSize: 11, color: "#9ca3af" }}>
+            {done.length === 0
+              ? "완료된 리뷰가 아직 없습니다."
+              : "발견된 이슈가 없습니다."}
+          </span>
+        ) : (
+          clusters.map((cluster, idx) => {
+            const first = cluster.issues[0].issue;
+            const sev = getSeverityStyle(first.issue_severity);
+            const agreement = cluster.models.length / done.length;
+            return (
+              <div
+                key={idx}
+                style={{
+                  borderRadius: 8,
+                  border: "1px solid rgba(31,41,55,0.9)",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  padding: "6px 10px",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: 4,
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    fontSize: 10,
+                    flexWrap: "wrap",
+                  }}
+                >
+                  <span
+                    style={{
+                      padding: "1px 6px",
+                      borderRadius: 999,
+                      fontWeight: 600,
+                      color: agreement >= 0.5 ? "#020617" : "#e5e7eb",
+                      backgroundColor:
+                        agreement >= 0.5
+                          ? "rgba(168,85,247,0.95)"
+                          : "rgba(55,65,81,0.9)",
+                    }}
+                  >
+                    {cluster.models.length}/{done.length} 모델
+                  </span>
+                  <span
+                    style={{
+                      padding: "1px 6px",
+                      borderRadius: 999,
+                      border: `1px solid ${sev.border}`,
+                      backgroundColor: sev.bg,
+                      color: sev.color,
+                    }}
+                  >
+                    {sev.label}
+                  </span>
+                  <span style={{ color: "#9ca3af" }}>
+                    {cluster.category}
+                    {cluster.line != null ? ` · line ${cluster.line}` : ""}
+                  </span>
+                </div>
+                <span style={{ fontSize: 11, color: "#e5e7eb" }}>
+                  {first.issue_summary}
+                </span>
+                <span style={{ fontSize: 10, color: "#9ca3af" }}>
+                  {cluster.models.map(shortModel).join(", ")}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
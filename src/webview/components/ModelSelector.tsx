@@ -1,27 +1,172 @@
 // src/webview/components/ModelSelector.tsx
 
 import React, { useMemo, useState } from "react";
-import { MODEL_OPTIONS } from "../modelOptions";
+import type { ModelCatalog, ModelOption, ModelPreferences } from "../types";
+import { getModelBadges } from "../../shared/modelOptions";
+import { MAX_COMPARE_MODELS } from "../../shared/reviewCompare";
+
+// 배지별 색 (나머지는 회색)
+const BADGE_COLORS: Record<string, string> = {
+  FREE: "#4ade80",
+  CODE: "#38bdf8",
+  THINKING: "#c084fc",
+  EXACTO: "#fbbf24",
+  EXTENDED: "#f472b6",
+};
+
+const ModelBadge: React.FC<{ text: string }> = ({ text }) => {
+  const color = BADGE_COLORS[text] ?? "#9ca3af";
+  return (
+    <span
+      style={{
+        fontSize: 9,
+        padding: "0 5px",
+        borderRadius: 999,
+        border: `1px solid ${color}`,
+        color,
+        whiteSpace: "nowrap",
+        lineHeight: "14px",
+      }}
+    >
+      {text}
+    </span>
+  );
+};
+
+const FilterChip: React.FC<{
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}> = ({ label, active, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    style={{
+      fontSize: 10,
+      padding: "2px 8px",
+      borderRadius: 999,
+      border: active
+        ? "1px solid rgba(168,85,247,0.9)"
+        : "1px solid rgba(55,65,81,0.9)",
+      backgroundColor: active ? "rgba(88,28,135,0.6)" : "rgba(15,23,42,0.9)",
+      color: active ? "#f5f3ff" : "#9ca3af",
+      cursor: "pointer",
+      whiteSpace: "nowrap",
+    }}
+  >
+    {label}
+  </button>
+);
 
 type Props = {
   value: string;
+  // 익스텐션이 내려준 모델 목록 (null = 아직 받는 중)
+  catalog: ModelCatalog | null;
+  // 즐겨찾기 / 최근 사용 (목록 맨 위에 고정)
+  preferences: ModelPreferences | null;
   onChange: (modelId: string) => void;
+  onToggleFavorite: (modelId: string) => void;
+  // ⚖️ 모델 비교 모드: 여러 모델을 골라 같은 코드를 동시에 리뷰
+  compareMode: boolean;
+  compareModels: string[];
+  onToggleCompareMode: () => void;
+  onToggleCompareModel: (modelId: string) => void;
   hasError?: boolean;
 };
 
-const ModelSelector: React.FC<Props> = ({ value, onChange, hasError }) => {
+type ModelGroup = { key: string; title: string; models: ModelOption[] };
+
+const ModelSelector: React.FC<Props> = ({
+  value,
+  catalog,
+  preferences,
+  onChange,
+  onToggleFavorite,
+  compareMode,
+  compareModels,
+  onToggleCompareMode,
+  onToggleCompareModel,
+  hasError,
+}) => {
   const [query, setQuery] = useState("");
+  const [provider, setProvider] = useState(""); // "" = 전체
+  const [freeOnly, setFreeOnly] = useState(false);
+  const [codeOnly, setCodeOnly] = useState(false);
+
+  // provider 목록 (모델 수 포함)
+  const providers = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const m of catalog?.models ?? []) {
+      counts.set(m.provider, (counts.get(m.provider) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) =>
+      a[0].localeCompare(b[0])
+    );
+  }, [catalog]);
+
+  const favorites = useMemo(
+    () => new Set(preferences?.favorites ?? []),
+    [preferences]
+  );
 
-  const filtered = useMemo(() => {
+  // 검색 + 필터 → 즐겨찾기 / 최근 사용 / provider 별 그룹
+  const groups = useMemo((): ModelGroup[] => {
     const q = query.trim().toLowerCase();
-    if (!q) return MODEL_OPTIONS;
-    return MODEL_OPTIONS.filter(
-      (m) =>
-        m.id.toLowerCase().includes(q) || m.provider.toLowerCase().includes(q)
+    const visible = new Map<string, ModelOption>();
+    for (const m of catalog?.models ?? []) {
+      if (provider && m.provider !== provider) continue;
+      if (freeOnly && !m.flags.free) continue;
+      if (codeOnly && !m.flags.codeTuned) continue;
+      if (
+        q &&
+        !m.id.toLowerCase().includes(q) &&
+        !m.label.toLowerCase().includes(q)
+      ) {
+        continue;
+      }
+      visible.set(m.id, m);
+    }
+
+    const pick = (ids: string[]) =>
+      ids.flatMap((id) => (visible.has(id) ? [visible.get(id)!] : []));
+    const favoriteModels = pick(preferences?.favorites ?? []);
+    const recentModels = pick(preferences?.recent ?? []).filter(
+      (m) => !favorites.has(m.id)
     );
-  }, [query]);
+    const pinned = new Set(
+      [...favoriteModels, ...recentModels].map((m) => m.id)
+    );
+
+    const byProvider = new Map<string, ModelOption[]>();
+    for (const m of visible.values()) {
+      if (pinned.has(m.id)) continue;
+      const list = byProvider.get(m.provider) ?? [];
+      list.push(m);
+      byProvider.set(m.provider, list);
+    }
 
-  const current = filtered.find((m) => m.id === value) ?? null;
+    const result: ModelGroup[] = [];
+    if (favoriteModels.length > 0) {
+      result.push({
+        key: "__favorites",
+        title: "★ 즐겨찾기",
+        models: favoriteModels,
+      });
+    }
+    if (recentModels.length > 0) {
+      result.push({
+        key: "__recent",
+        title: "최근 사용",
+        models: recentModels,
+      });
+    }
+    for (const [name, models] of Array.from(byProvider.entries()).sort((a, b) =>
+      a[0].localeCompare(b[0])
+    )) {
+      result.push({ key: name, title: name, models });
+    }
+    return result;
+  }, [catalog, preferences, favorites, query, provider, freeOnly, codeOnly]);
 
   return (
     <div
@@ -66,7 +211,7 @@ const ModelSelector: React.FC<Props> = ({ value, onChange, hasError }) => {
           <input
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="모델 ID / provider 검색"
+            placeholder="모델 이름 / ID 검색"
             style={{
               flex: 1,
               fontSize: 12,
@@ -84,6 +229,57 @@ const ModelSelector: React.FC<Props> = ({ value, onChange, hasError }) => {
         </div>
       </div>
 
+      {/* 필터: provider / 무료 / 코드 특화 */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 6,
+          flexWrap: "wrap",
+        }}
+      >
+        <select
+          value={provider}
+          onChange={(e) => setProvider(e.target.value)}
+          style={{
+            fontSize: 10,
+            padding: "2px 6px",
+            borderRadius: 999,
+            border: "1px solid rgba(55,65,81,0.9)",
+            backgroundColor: "rgba(15,23,42,0.95)",
+            color: "#e5e7eb",
+            outline: "none",
+          }}
+        >
+          <option value="">모든 provider</option>
+          {providers.map(([name, count]) => (
+            <option key={name} value={name}>
+              {name} ({count})
+            </option>
+          ))}
+        </select>
+        <FilterChip
+          label="무료만"
+          active={freeOnly}
+          onClick={() => setFreeOnly((v) => !v)}
+        />
+        <FilterChip
+          label="코드 특화"
+          active={codeOnly}
+          onClick={() => setCodeOnly((v) => !v)}
+        />
+        <span style={{ flex: 1 }} />
+        <FilterChip
+          label={
+            compareMode
+              ? `모델 비교 ${compareModels.length}/${MAX_COMPARE_MODELS}`
+              : "모델 비교"
+          }
+          active={compareMode}
+          onClick={onToggleCompareMode}
+        />
+      </div>
+
       {/* 모델 리스트: 고정 높이 + 스크롤 */}
       <div
         style={{
@@ -100,7 +296,7 @@ const ModelSelector: React.FC<Props> = ({ value, onChange, hasError }) => {
           boxSizing: "border-box",
         }}
       >
-        {filtered.length === 0 ? (
+        {groups.length === 0 ? (
           <div
             style={{
               fontSize: 11,
@@ -108,57 +304,108 @@ const ModelSelector: React.FC<Props> = ({ value, onChange, hasError }) => {
               padding: "4px 6px",
             }}
           >
-            검색 결과가 없습니다.
+            {!catalog
+              ? "모델 목록을 불러오는 중입니다..."
+              : catalog.models.length === 0
+              ? "사용할 수 있는 모델이 없습니다. (dkmv.models.allowed 설정 확인)"
+              : "조건에 맞는 모델이 없습니다."}
           </div>
         ) : (
-          filtered.map((m) => {
-            const active = m.id === value;
-            return (
-              <button
-                key={m.id}
-                type="button"
-                onClick={() => onChange(m.id)}
+          groups.map((group) => (
+            <div key={group.key}>
+              <div
                 style={{
-                  width: "100%",
-                  textAlign: "left",
-                  padding: "6px 10px",
-                  borderRadius: 8,
-                  border: "none",
-                  backgroundColor: active
-                    ? "rgba(88,28,135,0.9)"
-                    : "transparent",
-                  color: active ? "#f9fafb" : "#e5e7eb",
-                  fontSize: 11,
-                  cursor: "pointer",
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "space-between",
-                  gap: 8,
+                  fontSize: 10,
+                  color: "#9ca3af",
+                  padding: "6px 10px 2px",
+                  textTransform: "uppercase",
+                  letterSpacing: 0.4,
                 }}
               >
-                <span
-                  style={{
-                    whiteSpace: "nowrap",
-                    overflow: "hidden",
-                    textOverflow: "ellipsis",
-                  }}
-                  title={m.id}
-                >
-                  {m.label}
-                </span>
-                <span
-                  style={{
-                    fontSize: 10,
-                    color: active ? "#ede9fe" : "#9ca3af",
-                  }}
-                >
-                  [{m.provider}]
-                </span>
-              </button>
-            );
-          })
+                {group.title} · {group.models.length}
+              </div>
+              {group.models.map((m) => {
+                const active = compareMode
+                  ? compareModels.includes(m.id)
+                  : m.id === value;
+                const favorite = favorites.has(m.id);
+                return (
+                  <button
+                    key={m.id}
+                    type="button"
+                    onClick={() =>
+                      compareMode ? onToggleCompareModel(m.id) : onChange(m.id)
+                    }
+                    title={m.description ? `${m.id}\n\n${m.description}` : m.id}
+                    style={{
+                      width: "100%",
+                      textAlign: "left",
+                      padding: "6px 10px",
+                      borderRadius: 8,
+                      border: "none",
+                      backgroundColor: active
+                        ? "rgba(88,28,135,0.9)"
+                        : "transparent",
+                      color: active ? "#f9fafb" : "#e5e7eb",
+                      fontSize: 11,
+                      cursor: "pointer",
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "space-between",
+                      gap: 8,
+                    }}
+                  >
+                    <span
+                      style={{
+                        whiteSpace: "nowrap",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                      }}
+                    >
+                      {compareMode && (active ? "☑ " : "☐ ")}
+                      {m.label}
+                    </span>
+                    <span
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 3,
+                        flexShrink: 0,
+                      }}
+                    >
+                      {getModelBadges(m).map((badge) => (
+                        <ModelBadge key={badge} text={badge} />
+                      ))}
+                      {/* ⭐ 즐겨찾기 토글 (행 선택과 분리) */}
+                      <span
+                        role="button"
+                        title={favorite ? "즐겨찾기 해제" : "즐겨찾기"}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onToggleFavorite(m.id);
+                        }}
+                        style={{
+                          fontSize: 12,
+                          padding: "0 2px",
+                          color: favorite ? "#facc15" : "#4b5563",
+                        }}
+                      >
+                        {favorite ? "★" : "☆"}
+                      </span>
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          ))
         )}
       </div>
+
+      {catalog?.source === "fallback" && (
+        <span style={{ fontSize: 10, color: "#9ca3af" }}>
+          서버 모델 목록을 불러오지 못해 기본 목록을 표시합니다.
+        </span>
+      )}
     </div>
   );
 };
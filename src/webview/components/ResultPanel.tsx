@@ -7,6 +7,9 @@ import type {
   ScoreCategories,
   ReviewIssue,
   CategoryComment,
+  CategoryId,
+  PartialComments,
+  ReviewStage,
 } from "../types";
 import {
   extractScoresByCategory,
@@ -20,10 +23,30 @@ type Props = {
   resultData: AnalyzerResult | null;
   isError: boolean;
   isLoading: boolean;
+  // 📡 스트리밍 서버가 알려준 진행 단계 / 먼저 도착한 카테고리 코멘트
+  analyzeStage?: ReviewStage | null;
+  partialComments?: PartialComments;
   resultHighlight: boolean;
   displayOverallScore: number;
   displayCategoryScores: ScoreCategories;
   logoSrc: string;
+  // 📝 Markdown / HTML / SARIF 로 내보내기 (익스텐션이 저장 위치를 물어봄)
+  onExportReport?: (format: "markdown" | "html" | "sarif") => void;
+};
+
+// 로딩 화면의 단계 표시 (failed 는 에러 화면으로 바로 넘어가므로 제외)
+const STAGE_STEPS: { stage: ReviewStage; label: string }[] = [
+  { stage: "queued", label: "대기" },
+  { stage: "running", label: "리뷰" },
+  { stage: "scoring", label: "채점" },
+  { stage: "done", label: "완료" },
+];
+
+const PARTIAL_LABELS: Record<CategoryId, string> = {
+  bug: "Bug",
+  maintainability: "Maintainability",
+  style: "Style",
+  security: "Security",
 };
 
 const handleCopyText = (text: string) => {
@@ -113,12 +136,20 @@ const ResultPanel: React.FC<Props> = ({
   resultData,
   isError,
   isLoading,
+  analyzeStage = null,
+  partialComments = {},
   resultHighlight,
   displayOverallScore,
   displayCategoryScores,
   logoSrc,
+  onExportReport,
 }) => {
   const overallLabel = getScoreLabel(displayOverallScore);
+  const stageIndex = STAGE_STEPS.findIndex((s) => s.stage === analyzeStage);
+  const partialEntries = (Object.keys(PARTIAL_LABELS) as CategoryId[]).flatMap(
+    (key) =>
+      partialComments[key] ? [{ key, text: partialComments[key]! }] : []
+  );
 
   const reviewText: string | null = (() => {
     if (!resultData) return null;
@@ -497,6 +528,34 @@ const ResultPanel: React.FC<Props> = ({
               }}
             >
               <SectionHeader label="리뷰 요약" />
+              {resultData && onExportReport && (
+                <div style={{ display: "flex", gap: 4 }}>
+                  {(
+                    [
+                      ["markdown", "Markdown 내보내기"],
+                      ["html", "HTML 내보내기"],
+                      ["sarif", "SARIF 내보내기"],
+                    ] as const
+                  ).map(([format, label]) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => onExportReport(format)}
+                      style={{
+                        fontSize: 10,
+                        padding: "2px 8px",
+                        borderRadius: 999,
+                        border: "1px solid rgba(55,65,81,0.9)",
+                        backgroundColor: "rgba(15,23,42,0.9)",
+                        color: "#9ca3af",
+                        cursor: "pointer",
+                      }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             <div
               style={{
@@ -651,6 +710,15 @@ const ResultPanel: React.FC<Props> = ({
                       if (typeof issue.issue_column_number === "number") {
                         locPieces.push(`col ${issue.issue_column_number}`);
                       }
+                      if (typeof issue.issue_end_line_number === "number") {
+                        locPieces.push(
+                          `~ line ${issue.issue_end_line_number}${
+                            typeof issue.issue_end_column_number === "number"
+                              ? `:${issue.issue_end_column_number}`
+                              : ""
+                          }`
+                        );
+                      }
                       const locationLabel = locPieces.join(", ");
 
                       return (
@@ -734,6 +802,39 @@ const ResultPanel: React.FC<Props> = ({
                               {issue.issue_details}
                             </div>
                           )}
+                          {issue.issue_suggested_fix && (
+                            <div
+                              style={{
+                                display: "flex",
+                                flexDirection: "column",
+                                gap: 2,
+                              }}
+                            >
+                              <span
+                                style={{
+                                  fontSize: 10,
+                                  color: "#86efac",
+                                }}
+                              >
+                                🩹 수정 제안 (에디터의 Quick Fix 로 적용 가능)
+                              </span>
+                              <pre
+                                style={{
+                                  margin: 0,
+                                  padding: 6,
+                                  borderRadius: 4,
+                                  backgroundColor: "rgba(2,6,23,0.9)",
+                                  border: "1px solid rgba(34,197,94,0.35)",
+                                  fontSize: 11,
+                                  color: "#e5e7eb",
+                                  whiteSpace: "pre-wrap",
+                                  overflowX: "auto",
+                                }}
+                              >
+                                {issue.issue_suggested_fix}
+                              </pre>
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -855,6 +956,70 @@ const ResultPanel: React.FC<Props> = ({
             >
               코드의 바이브를 읽는 중
             </span>
+
+            {/* 📡 서버가 알려준 실제 단계 */}
+            {stageIndex >= 0 && (
+              <div style={{ display: "flex", gap: 6, fontSize: 10 }}>
+                {STAGE_STEPS.map((step, idx) => (
+                  <span
+                    key={step.stage}
+                    style={{
+                      padding: "1px 8px",
+                      borderRadius: 999,
+                      border:
+                        idx === stageIndex
+                          ? "1px solid rgba(168,85,247,0.9)"
+                          : "1px solid rgba(55,65,81,0.9)",
+                      color:
+                        idx < stageIndex
+                          ? "#9ca3af"
+                          : idx === stageIndex
+                          ? "#f5f3ff"
+                          : "#4b5563",
+                    }}
+                  >
+                    {idx < stageIndex ? "✓ " : ""}
+                    {step.label}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* 먼저 도착한 카테고리 코멘트 (최종 결과가 오면 사라짐) */}
+            {partialEntries.length > 0 && (
+              <div
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: 6,
+                  width: "85%",
+                  maxHeight: "40%",
+                  overflow: "hidden",
+                }}
+              >
+                {partialEntries.map(({ key, text }) => (
+                  <div
+                    key={key}
+                    style={{
+                      fontSize: 11,
+                      color: "#e5e7eb",
+                      borderLeft: "2px solid rgba(168,85,247,0.9)",
+                      paddingLeft: 8,
+                      whiteSpace: "pre-wrap",
+                      display: "-webkit-box",
+                      WebkitLineClamp: 3,
+                      WebkitBoxOrient: "vertical",
+                      overflow: "hidden",
+                    }}
+                  >
+                    <strong style={{ color: "#c4b5fd" }}>
+                      {PARTIAL_LABELS[key]}
+                    </strong>{" "}
+                    {text}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,27 +1,32 @@
 // src/webview/types.ts
-
-export type IncomingMessage =
-  | {
-      type: "NEW_CODE";
-      payload: {
-        code: string;
-        fileName: string;
-        filePath: string;
-        languageId: string;
-        mode: "selection" | "document";
-      };
-    }
-  | { type: "ANALYZE_PROGRESS"; payload: string }
-  | { type: "ANALYZE_RESULT"; payload: any }
-  | { type: "ANALYZE_ERROR"; payload: string }
-  | { type: string; payload?: any };
-
-export type ScoreCategories = {
-  bug: number;
-  maintainability: number;
-  style: number;
-  security: number;
-};
+import type { CategoryId, ScoreCategories } from "../shared/reviewSchema";
+
+// 익스텐션 ↔ 웹뷰 메시지는 src/shared/protocol.ts 에서 한 곳으로 관리
+export type {
+  EndpointConfig,
+  ExtensionToWebviewMessage as IncomingMessage,
+  WebviewToExtensionMessage as OutgoingMessage,
+} from "../shared/protocol";
+
+// 모델 카탈로그는 익스텐션이 서버 / 캐시 / 기본 목록 중에서 골라 내려줌
+export type {
+  ModelCatalog,
+  ModelOption,
+  ModelPreferences,
+} from "../shared/modelOptions";
+
+// 모델 비교 결과 (src/shared/reviewCompare.ts)
+export type { CompareEntry, IssueCluster } from "../shared/reviewCompare";
+
+// 리뷰 결과/이슈 타입은 익스텐션과 공유 (src/shared/reviewSchema.ts)
+export type {
+  AnalyzerResult,
+  CategoryId,
+  IssueSeverity,
+  ReviewIssue,
+  ReviewStage,
+  ScoreCategories,
+} from "../shared/reviewSchema";
 
 export const EMPTY_CATEGORIES: ScoreCategories = {
   bug: 0,
@@ -30,28 +35,10 @@ export const EMPTY_CATEGORIES: ScoreCategories = {
   security: 0,
 };
 
-export type IssueSeverity = "HIGH" | "MEDIUM" | "LOW" | string;
-
-export type ReviewIssue = {
-  issue_id: string;
-  issue_category: string;
-  issue_severity: IssueSeverity;
-  issue_summary: string;
-  issue_details?: string;
-  issue_line_number?: number;
-  issue_column_number?: number;
-};
-
-export type AnalyzerResult = {
-  quality_score: number;
-  review_summary?: string;
-  scores_by_category?: Partial<ScoreCategories>;
-  review_details?: any;
-  [key: string]: any;
-};
+export type TabId = "code" | "result" | "compare";
 
-export type TabId = "code" | "result";
-export type CategoryId = "bug" | "maintainability" | "style" | "security";
+// 📡 스트리밍으로 먼저 도착한 카테고리 코멘트 (최종 결과 전까지 로딩 화면에 표시)
+export type PartialComments = Partial<Record<CategoryId, string>>;
 
 export type CategoryComment = {
   key: CategoryId;